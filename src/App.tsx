@@ -1,10 +1,16 @@
 import { useState, useEffect } from 'react'
 import { Analytics } from '@vercel/analytics/react'
 import ShoppingPage from './components/ShoppingPage'
+import ProvenanceVerifier from './components/ProvenanceVerifier'
 import logo from './assets/TryIt_Logo.png'
 import './App.css'
 import type { SizeGuide } from './utils/sizeCollector'
 import type { PersonAnalysis } from './utils/personAnalyzer'
+import type { ColorVariant } from './utils/colorVariants'
+import type { FiberShare } from './utils/fiberContent'
+import type { TapeMeasurements } from './utils/sizeIdentifier'
+import type { ReferenceGarment } from './utils/referenceGarment'
+import type { GarmentMasks } from './utils/garmentMask'
 import { analyzeItem } from './utils/analyzeItem'
 import { useTimeOnPage } from './hooks/useTimeOnPage'
 
@@ -12,13 +18,21 @@ const SESSION_STORAGE_KEY = 'tryit_session'
 const TEST_MODE = window.location.pathname === '/test-mode'
 const TEST_MODE_IDS = ['2388797', '2398101', '2390524', '2383610', '2388963', '2397821']
 
+// Provenance verifier for exported try-on images
+const VERIFY_MODE = window.location.pathname === '/verify'
+
 export interface ItemData {
   id: string
+  productId?: string  // Retailer product id; id gets a per-scan suffix so cards stay distinct
   sku: string
   name: string
   shortDescription: string
   fullDescription: string
   imageUrl: string
+  additionalImages?: string[]  // Other product shots from the retailer gallery
+  backImageUrl?: string        // Rear product shot, picked from the gallery by analyzeItem
+  colorVariants?: ColorVariant[]  // Colorways the item is sold in (backend, gallery or description)
+  selectedColor?: string          // Shopper's colorway pick; unset = main image's color
   price: number
   currency: string
   color: string
@@ -30,16 +44,21 @@ export interface ItemData {
   availableSizes: string[]
   brand?: string
   sizeGuide?: SizeGuide
+  fiberContent?: FiberShare[]  // Fabric composition from the description, largest share first
 }
 
 export interface UserData {
   image: string | null
   croppedImage: string | null  // The frame-captured image (4:3 aspect, with blur background)
+  garmentMasks: GarmentMasks   // Clothing regions painted over the photo, per garment category (white = replace)
   weight: number | null
   weightUnit: 'lb' | 'kg'
   height: number | null
   heightUnit: 'ft' | 'cm'
   heightInches: number | null
+  growthAllowance: boolean  // Size children's items with room to grow
+  tapeMeasurements: TapeMeasurements  // Optional tape-measured dimensions (cm), override the estimates
+  referenceGarment: ReferenceGarment | null  // A size the person wears in another brand, narrows the estimates
   item: ItemData | null  // Current active item (for backward compatibility)
   items: ItemData[]      // All scanned items for stacked cards
   personAnalysis: PersonAnalysis | null  // Cached person analysis (run once when image changes)
@@ -51,11 +70,15 @@ function App() {
   const defaultUserData: UserData = {
     image: null,
     croppedImage: null,
+    garmentMasks: {},
     weight: 70,
     weightUnit: 'kg',
     height: 180,
     heightUnit: 'cm',
     heightInches: null,
+    growthAllowance: false,
+    tapeMeasurements: {},
+    referenceGarment: null,
     item: null,
     items: [],
     personAnalysis: null
@@ -67,7 +90,8 @@ function App() {
     try {
       const saved = sessionStorage.getItem(SESSION_STORAGE_KEY)
       if (saved) {
-        return JSON.parse(saved)
+        // Defaults fill in fields added since the session was saved
+        return { ...defaultUserData, ...JSON.parse(saved) }
       }
     } catch {
       // Failed to restore session
@@ -83,13 +107,13 @@ function App() {
 
     const preloadItems = async () => {
       const results = await Promise.allSettled(
-        TEST_MODE_IDS.map(async (id) => {
+        TEST_MODE_IDS.map(async (id): Promise<ItemData> => {
           const response = await fetch(`https://closai-backend.vercel.app/api/duke/item?id=${id}`)
           if (!response.ok) throw new Error(`Failed to fetch item ${id}`)
           const data = await response.json()
           const rawItem = data.item as ItemData
           const analyzed = await analyzeItem(rawItem)
-          return { ...analyzed, id: `${analyzed.id}-${Date.now()}-${id}` }
+          return { ...analyzed, id: `${analyzed.id}-${Date.now()}-${id}`, productId: analyzed.id }
         })
       )
 
@@ -121,6 +145,7 @@ function App() {
           ...userData,
           image: null,
           croppedImage: null,
+          garmentMasks: {},
           personAnalysis: null
         }
         sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(dataWithoutImage))
@@ -162,10 +187,14 @@ function App() {
       </header>
 
       <main className="app-main">
-        <ShoppingPage
-          userData={userData}
-          onUpdate={updateUserData}
-        />
+        {VERIFY_MODE ? (
+          <ProvenanceVerifier />
+        ) : (
+          <ShoppingPage
+            userData={userData}
+            onUpdate={updateUserData}
+          />
+        )}
       </main>
 
       <Analytics debug={false} />
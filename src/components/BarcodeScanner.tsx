@@ -5,6 +5,9 @@ import type { BarcodeScanResult } from '../utils/barcodeProcessor'
 import barcodeBackground from '../assets/Barcode.jpeg'
 import type { ItemData } from '../App'
 import { analyzeItem } from '../utils/analyzeItem'
+import { applyColorVariant } from '../utils/colorVariants'
+import { getFabricFitAdjustment } from '../utils/fiberContent'
+import { normalizeSize } from '../utils/sizeSystems'
 import sampleItemData from '../data/sampleItem.json'
 import StackedCards from './StackedCards'
 import type { ClothingItem } from './StackedCards'
@@ -26,27 +29,6 @@ interface BarcodeScannerProps {
   onItemsChange: (items: ItemData[]) => void
 }
 
-/**
- * Normalize a size string to its abbreviation
- */
-function normalizeSize(s: string): string {
-  const map: Record<string, string> = {
-    'x-small': 'XS', 'xsmall': 'XS', 'extra small': 'XS', 'x small': 'XS',
-    'small': 'S', 'sm': 'S',
-    'medium': 'M', 'med': 'M',
-    'large': 'L', 'lg': 'L',
-    'x-large': 'XL', 'xlarge': 'XL', 'extra large': 'XL', 'x large': 'XL',
-    'xx-large': '2XL', 'xxlarge': '2XL', 'xxl': '2XL', 'xx large': '2XL', '2x': '2XL',
-    'xxx-large': '3XL', 'xxxlarge': '3XL', 'xxxl': '3XL', '3x': '3XL',
-    'xxxx-large': '4XL', 'xxxxlarge': '4XL', 'xxxxl': '4XL', '4x': '4XL',
-    'youth small': 'YS', 'youth s': 'YS',
-    'youth medium': 'YM', 'youth m': 'YM',
-    'youth large': 'YL', 'youth l': 'YL',
-    'youth x-large': 'YXL', 'youth xl': 'YXL',
-  }
-  return map[s.toLowerCase().trim()] || s.toUpperCase().trim()
-}
-
 /**
  * Format availableSizes array into display string
  * e.g., ["Small", "Medium", "Large", "XL", "2XL"] => "S - 2XL"
@@ -391,7 +373,8 @@ function BarcodeScanner({ item, items, onItemScanned, onItemsChange }: BarcodeSc
         // Add unique id with timestamp
         const itemWithUniqueId = {
           ...analyzedItem,
-          id: `${analyzedItem.id}-${Date.now()}`
+          id: `${analyzedItem.id}-${Date.now()}`,
+          productId: analyzedItem.id
         }
 
         // Add to items array
@@ -475,15 +458,29 @@ function BarcodeScanner({ item, items, onItemScanned, onItemsChange }: BarcodeSc
     }
   }
 
+  // Colorway picked on a card: stored on the item so try-on switches to that color
+  const handleColorSelect = (_item: ClothingItem, index: number, color: string) => {
+    const target = items[index]
+    if (!target || (target.selectedColor || target.colorVariants?.[0]?.name) === color) return
+
+    track('color_variant_select', { itemName: target.name, color })
+    const updated = { ...target, selectedColor: color }
+    onItemsChange(items.map((it, i) => (i === index ? updated : it)))
+    if (item?.id === updated.id) onItemScanned(updated)
+  }
+
   // Convert ItemData to ClothingItem for StackedCards
   const clothingItems: ClothingItem[] = items.map(item => ({
     id: item.id,
     name: item.name,
     brand: item.brand || 'Duke',
-    imageUrl: item.imageUrl,
+    imageUrl: applyColorVariant(item).imageUrl,
     price: `$${item.price.toFixed(2)}`,
     size: formatSizeRange(item.availableSizes),
-    gender: item.gender
+    gender: item.gender,
+    colors: item.colorVariants?.map(v => v.name),
+    selectedColor: item.selectedColor,
+    fabric: getFabricFitAdjustment(item.fiberContent) || undefined
   }))
 
   // Debug: log item prop on every render
@@ -580,6 +577,7 @@ function BarcodeScanner({ item, items, onItemScanned, onItemsChange }: BarcodeSc
           items={clothingItems}
           onItemSelect={handleItemSelect}
           onRemoveItem={handleRemoveItem}
+          onColorSelect={handleColorSelect}
           initialIndex={currentCardIndex}
           navigationTrigger={navigationTrigger}
           showDuplicateNotification={showDuplicateNotification}
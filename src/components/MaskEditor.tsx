@@ -0,0 +1,191 @@
+import { useState, useRef, useEffect } from 'react'
+import { strokesToMask, maskCoverage, type GarmentMasks } from '../utils/garmentMask'
+import type { GarmentCategory } from '../utils/tryOnProvider'
+import './MaskEditor.css'
+
+// Brush diameters as a fraction of the photo width
+const BRUSH_SIZES = {
+  S: 0.04,
+  M: 0.08,
+  L: 0.14
+} as const
+
+type BrushSize = keyof typeof BRUSH_SIZES
+
+// Each garment category is painted on its own layer
+const CATEGORIES: { id: GarmentCategory; label: string }[] = [
+  { id: 'top', label: 'Top' },
+  { id: 'bottom', label: 'Bottom' }
+]
+
+// Below this coverage the mask is treated as "nothing painted"
+const MIN_COVERAGE = 0.01
+
+interface MaskEditorProps {
+  image: string
+  onDone: (masks: GarmentMasks) => void
+  onSkip: () => void
+}
+
+export default function MaskEditor({ image, onDone, onSkip }: MaskEditorProps) {
+  const [brushSize, setBrushSize] = useState<BrushSize>('M')
+  const [isErasing, setIsErasing] = useState(false)
+  const [category, setCategory] = useState<GarmentCategory>('top')
+  const [painted, setPainted] = useState<Record<GarmentCategory, boolean>>({ top: false, bottom: false })
+
+  const canvasRefs = useRef<Record<GarmentCategory, HTMLCanvasElement | null>>({ top: null, bottom: null })
+  const isDrawing = useRef(false)
+  const lastPoint = useRef<{ x: number; y: number } | null>(null)
+
+  // Size the stroke canvases to the photo's pixel size
+  useEffect(() => {
+    const img = new Image()
+    img.onload = () => {
+      for (const canvas of Object.values(canvasRefs.current)) {
+        if (!canvas) continue
+        canvas.width = img.width
+        canvas.height = img.height
+      }
+    }
+    img.src = image
+  }, [image])
+
+  // Pointer position in canvas pixels
+  const toCanvasPoint = (clientX: number, clientY: number) => {
+    const canvas = canvasRefs.current[category]!
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: ((clientX - rect.left) / rect.width) * canvas.width,
+      y: ((clientY - rect.top) / rect.height) * canvas.height
+    }
+  }
+
+  const drawTo = (point: { x: number; y: number }) => {
+    const canvas = canvasRefs.current[category]
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+
+    const from = lastPoint.current ?? point
+    ctx.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over'
+    ctx.strokeStyle = '#fff'
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    ctx.lineWidth = canvas.width * BRUSH_SIZES[brushSize]
+    ctx.beginPath()
+    ctx.moveTo(from.x, from.y)
+    ctx.lineTo(point.x, point.y)
+    ctx.stroke()
+
+    lastPoint.current = point
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    isDrawing.current = true
+    lastPoint.current = null
+    drawTo(toCanvasPoint(e.clientX, e.clientY))
+    if (!isErasing) setPainted(prev => ({ ...prev, [category]: true }))
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return
+    drawTo(toCanvasPoint(e.clientX, e.clientY))
+  }
+
+  const handlePointerUp = () => {
+    isDrawing.current = false
+    lastPoint.current = null
+  }
+
+  const handleClear = () => {
+    const canvas = canvasRefs.current[category]
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    setPainted(prev => ({ ...prev, [category]: false }))
+  }
+
+  const handleDone = () => {
+    const masks: GarmentMasks = {}
+    for (const { id } of CATEGORIES) {
+      const canvas = canvasRefs.current[id]
+      if (canvas && maskCoverage(canvas) >= MIN_COVERAGE) masks[id] = strokesToMask(canvas)
+    }
+    onDone(masks)
+  }
+
+  return (
+    <div className="mask-editor-overlay">
+      <div className="mask-editor-modal">
+        {/* Header */}
+        <div className="mask-editor-header">
+          <button className="mask-editor-btn skip" onClick={onSkip}>Skip</button>
+          <span className="mask-editor-title">Paint the clothes</span>
+          <button className="mask-editor-btn done" onClick={handleDone} disabled={!painted.top && !painted.bottom}>Done</button>
+        </div>
+
+        <p className="mask-editor-hint">
+          Brush over the {category === 'top' ? 'top, including sleeves and collar' : 'trousers, shorts or skirt'}. Only the painted area will change.
+        </p>
+
+        {/* Photo with stroke layer on top */}
+        <div className="mask-editor-stage">
+          <div className="mask-editor-frame">
+            <img src={image} alt="Photo to mask" className="mask-editor-image" draggable={false} />
+            {CATEGORIES.map(({ id }) => (
+              <canvas
+                key={id}
+                ref={(el) => { canvasRefs.current[id] = el }}
+                className={`mask-editor-canvas ${id === category ? '' : 'inactive'}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Brush controls */}
+        <div className="mask-editor-controls">
+          <div className="mask-editor-group">
+            {CATEGORIES.map(({ id, label }) => (
+              <button
+                key={id}
+                className={`mask-editor-tool ${category === id ? 'active' : ''}`}
+                onClick={() => setCategory(id)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="mask-editor-group">
+            <button
+              className={`mask-editor-tool ${!isErasing ? 'active' : ''}`}
+              onClick={() => setIsErasing(false)}
+            >
+              Brush
+            </button>
+            <button
+              className={`mask-editor-tool ${isErasing ? 'active' : ''}`}
+              onClick={() => setIsErasing(true)}
+            >
+              Erase
+            </button>
+          </div>
+          <div className="mask-editor-group">
+            {(Object.keys(BRUSH_SIZES) as BrushSize[]).map((size) => (
+              <button
+                key={size}
+                className={`mask-editor-tool ${brushSize === size ? 'active' : ''}`}
+                onClick={() => setBrushSize(size)}
+              >
+                {size}
+              </button>
+            ))}
+          </div>
+          <button className="mask-editor-tool" onClick={handleClear}>Clear</button>
+        </div>
+      </div>
+    </div>
+  )
+}
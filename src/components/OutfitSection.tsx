@@ -0,0 +1,294 @@
+import { useState, useRef, useEffect } from 'react'
+import { track } from '@vercel/analytics'
+import type { ItemData, UserData } from '../App'
+import { applyRecipientSizeGuide, convertSizeForDisplay, isBottomType } from '../utils/sizeCollector'
+import { analyzeItemFit, buildClothingInfo } from '../utils/fitAnalyzer'
+import { generateOutfitTryOnImage, getOutfitId, getProductCacheId, type FitType } from '../utils/tryOnService'
+import { describeTryOnFailure, type TryOnFailure } from '../utils/tryOnRetry'
+import { getTryOnScheduler } from '../utils/tryOnScheduler'
+import { getCoBrandLogo } from '../utils/watermark'
+import { applyColorVariant } from '../utils/colorVariants'
+import { useTryOnQueueStatus, describeQueueStatus } from '../hooks/useTryOnQueueStatus'
+import './ResultsSection.css'
+import './OutfitSection.css'
+
+interface OutfitSectionProps {
+  userData: UserData
+}
+
+// Top + bottom pair the images were generated for
+interface OutfitSelection {
+  top: ItemData
+  bottom: ItemData
+}
+
+type GeneratedImages = Record<FitType, string | null>
+
+const FITS: FitType[] = ['tight', 'regular', 'comfortable']
+
+const fitLabels: Record<FitType, string> = {
+  tight: 'Fitted',
+  regular: 'Standard',
+  comfortable: 'Relaxed'
+}
+
+const EMPTY_IMAGES: GeneratedImages = { tight: null, regular: null, comfortable: null }
+
+/**
+ * Outfit try-on: pick a scanned top and bottom and see them together, one image per fit
+ * Only shown once the stack has at least one top and one bottom.
+ */
+function OutfitSection({ userData }: OutfitSectionProps) {
+  // Each piece in the colorway picked on its card, sized for the person wearing it
+  const items = (userData.items || []).map(item => applyRecipientSizeGuide(applyColorVariant(item), userData.personAnalysis?.age_range))
+  const tops = items.filter(item => !isBottomType(item.type))
+  const bottoms = items.filter(item => isBottomType(item.type))
+
+  const [topId, setTopId] = useState<string | null>(null)
+  const [bottomId, setBottomId] = useState<string | null>(null)
+  const [selection, setSelection] = useState<OutfitSelection | null>(null)
+  const [selectedFit, setSelectedFit] = useState<FitType>('regular')
+  const [generatedImages, setGeneratedImages] = useState<GeneratedImages>(EMPTY_IMAGES)
+  const [generatingFits, setGeneratingFits] = useState<Set<FitType>>(new Set())
+  const [failures, setFailures] = useState<Partial<Record<FitType, TryOnFailure>>>({})
+
+  // Fall back to the first top / bottom when nothing (or a removed item) is picked
+  const top = tops.find(item => item.id === topId) || tops[0]
+  const bottom = bottoms.find(item => item.id === bottomId) || bottoms[0]
+
+  const outfitId = selection ? getOutfitId(selection.top.id, selection.bottom.id) : ''
+  const queueStatus = useTryOnQueueStatus(outfitId)
+
+  // Cancels this outfit's queued/running jobs (new outfit, photo change, or unmount)
+  const generationControllerRef = useRef(new AbortController())
+
+  const cancelGeneration = () => {
+    generationControllerRef.current.abort()
+    generationControllerRef.current = new AbortController()
+  }
+
+  const generateFitImage = async (fit: FitType, outfit: OutfitSelection) => {
+    if (!userData.image) return
+
+    const signal = generationControllerRef.current.signal
+    const topAnalysis = analyzeItemFit(userData, outfit.top)
+    const bottomAnalysis = analyzeItemFit(userData, outfit.bottom)
+
+    setGeneratingFits(prev => new Set(prev).add(fit))
+    setFailures(prev => ({ ...prev, [fit]: undefined }))
+
+    try {
+      const result = await generateOutfitTryOnImage(
+        userData.image,
+        { imageUrl: outfit.top.imageUrl, info: buildClothingInfo(outfit.top, topAnalysis.sizeRec, topAnalysis.measurements, fit) },
+        { imageUrl: outfit.bottom.imageUrl, info: buildClothingInfo(outfit.bottom, bottomAnalysis.sizeRec, bottomAnalysis.measurements, fit) },
+        fit,
+        userData.personAnalysis?.gender || 'unknown',
+        {
+          itemId: getOutfitId(outfit.top.id, outfit.bottom.id),
+          cacheId: getOutfitId(getProductCacheId(outfit.top), getProductCacheId(outfit.bottom)),
+          signal,
+          watermark: { coBrandLogoUrl: getCoBrandLogo(outfit.top) }
+        }
+      )
+
+      if (result.success && result.imageDataUrl) {
+        track('outfit_generated', { fit, cached: !!result.fromCache })
+        setGeneratedImages(prev => ({ ...prev, [fit]: result.imageDataUrl }))
+      } else if (result.failure && result.failure.kind !== 'cancelled' && !signal.aborted) {
+        track('tryon_failed', { fit, kind: result.failure.kind, attempts: result.failure.attempts, outfit: true })
+        setFailures(prev => ({ ...prev, [fit]: result.failure }))
+      }
+    } finally {
+      setGeneratingFits(prev => {
+        const next = new Set(prev)
+        next.delete(fit)
+        return next
+      })
+    }
+  }
+
+  const handleTryOutfit = () => {
+    if (!top || !bottom || !userData.image) return
+
+    track('outfit_click', { top: top.name, bottom: bottom.name })
+
+    const outfit = { top, bottom }
+    cancelGeneration()
+    setSelection(outfit)
+    setGeneratedImages(EMPTY_IMAGES)
+    setFailures({})
+    FITS.forEach(fit => generateFitImage(fit, outfit))
+  }
+
+  // Drop the outfit when the photo changes or one of its pieces is removed from the stack
+  const lastImageRef = useRef(userData.image)
+  useEffect(() => {
+    const stack = userData.items || []
+    const pieceRemoved = selection && (!stack.some(i => i.id === selection.top.id) || !stack.some(i => i.id === selection.bottom.id))
+    if (userData.image !== lastImageRef.current || pieceRemoved) {
+      lastImageRef.current = userData.image
+      cancelGeneration()
+      setSelection(null)
+      setGeneratedImages(EMPTY_IMAGES)
+      setFailures({})
+    }
+  }, [userData.image, userData.items, selection])
+
+  // Cancel pending jobs when the section unmounts
+  useEffect(() => {
+    const controllerRef = generationControllerRef
+    return () => controllerRef.current.abort()
+  }, [])
+
+  // Run the on-screen fit first
+  useEffect(() => {
+    if (outfitId) {
+      getTryOnScheduler().setFocus(outfitId, selectedFit)
+    }
+  }, [outfitId, selectedFit])
+
+  if (tops.length === 0 || bottoms.length === 0) return null
+
+  const isCurrentSelection = !!selection && selection.top.id === top?.id && selection.bottom.id === bottom?.id
+  const canTryOutfit = !!userData.image && !!top && !!bottom && !isCurrentSelection
+  const selectedIndex = FITS.indexOf(selectedFit)
+
+  // Size analysis for each piece of the generated outfit
+  const analyses = selection && {
+    top: analyzeItemFit(userData, selection.top),
+    bottom: analyzeItemFit(userData, selection.bottom)
+  }
+
+  const displaySize = (item: ItemData, size: string | null | undefined) =>
+    size ? convertSizeForDisplay(size.toUpperCase().trim(), item.brand, item.gender, item.availableSizes) : null
+
+  const renderPieceRow = (label: string, pieces: ItemData[], selectedId: string | undefined, onSelect: (id: string) => void) => (
+    <div className="outfit-piece-row">
+      <span className="outfit-piece-label">{label}</span>
+      <div className="outfit-piece-options">
+        {pieces.map(piece => (
+          <button
+            key={piece.id}
+            className={`outfit-piece-option ${piece.id === selectedId ? 'selected' : ''}`}
+            onClick={() => onSelect(piece.id)}
+            aria-label={piece.name}
+          >
+            <img src={piece.imageUrl} alt={piece.name} />
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <section className="outfit-section">
+      <h2 className="section-title">Try on an outfit</h2>
+      <p className="section-subtitle">Pair a scanned top with a scanned bottom.</p>
+
+      {renderPieceRow('Top', tops, top?.id, setTopId)}
+      {renderPieceRow('Bottom', bottoms, bottom?.id, setBottomId)}
+
+      <button
+        className={`tryit-button outfit-button ${canTryOutfit ? 'active' : (isCurrentSelection ? 'generated' : 'disabled')}`}
+        onClick={handleTryOutfit}
+        disabled={!canTryOutfit}
+      >
+        Try the outfit!
+      </button>
+
+      {selection && analyses && (
+        <div className="results-demo results-section outfit-results">
+          <div className="image-carousel-container">
+            <div className="image-carousel-wrapper">
+              <div className="image-carousel" style={{ transform: `translateX(-${selectedIndex * 100}%)` }}>
+                {FITS.map((fit) => {
+                  const image = generatedImages[fit]
+                  const failure = failures[fit]
+                  const isGenerating = generatingFits.has(fit)
+
+                  return (
+                    <div key={fit} className="carousel-slide">
+                      {image && !isGenerating ? (
+                        <div className="image-frame">
+                          <div className="blur-background" style={{ backgroundImage: `url(${image})` }} />
+                          <img src={image} alt={`${fitLabels[fit]} outfit preview`} className="fit-image" />
+                        </div>
+                      ) : (
+                        <div className={`image-frame loading-frame${failure && !isGenerating ? ' failed-frame' : ''}`}>
+                          {userData.image && (
+                            <div className="loading-blur-background" style={{ backgroundImage: `url(${userData.image})` }} />
+                          )}
+                          <div className="loading">
+                            {failure && !isGenerating ? (
+                              <>
+                                <p>{describeTryOnFailure(failure)}</p>
+                                <button className="retry-button" onClick={() => generateFitImage(fit, selection)}>
+                                  Try again
+                                </button>
+                              </>
+                            ) : (
+                              <>
+                                <div className="spinner"></div>
+                                <p>{describeQueueStatus(queueStatus[fit], false)}</p>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+
+            <div className="carousel-dots">
+              {FITS.map((fit) => (
+                <button
+                  key={fit}
+                  className={`dot ${selectedFit === fit ? 'active' : ''}`}
+                  onClick={() => setSelectedFit(fit)}
+                  aria-label={fitLabels[fit]}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="size-picker-container">
+            <div className="size-picker">
+              {FITS.map((fit) => (
+                <button
+                  key={fit}
+                  className={`size-picker-card ${selectedFit === fit ? 'selected' : ''}`}
+                  onClick={() => setSelectedFit(fit)}
+                >
+                  <span className="size-picker-label">{fitLabels[fit]}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Suggested size for each piece */}
+          <div className="suggested-size-section">
+            <h3 className="results-section-title">Suggested sizes to bring to the fitting room</h3>
+            {([['Top', selection.top, analyses.top], ['Bottom', selection.bottom, analyses.bottom]] as const).map(([label, piece, analysis]) => {
+              const size = displaySize(piece, analysis.sizeRec[selectedFit])
+              return (
+                <div key={label} className="outfit-size-row">
+                  <span className="outfit-size-piece">{label} · {piece.name}</span>
+                  {size ? (
+                    <span className="suggested-size-value">{size}</span>
+                  ) : (
+                    <span className="suggested-size-value out-of-range">Out of range</span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default OutfitSection
@@ -2,11 +2,15 @@ import { useState, useRef, forwardRef, useImperativeHandle } from 'react'
 import { track } from '@vercel/analytics'
 import sampleBackground from '../assets/Simple_upload.jpg'
 import ImageCropper from './ImageCropper'
+import MaskEditor from './MaskEditor'
+import type { GarmentMasks } from '../utils/garmentMask'
 import './PhotoUpload.css'
 
 interface PhotoUploadProps {
   image: string | null
   onImageChange: (image: string | null) => void
+  masks?: GarmentMasks
+  onMasksChange?: (masks: GarmentMasks) => void
 }
 
 export interface PhotoUploadHandle {
@@ -14,9 +18,10 @@ export interface PhotoUploadHandle {
 }
 
 const PhotoUpload = forwardRef<PhotoUploadHandle, PhotoUploadProps>(
-  ({ image, onImageChange }, ref) => {
+  ({ image, onImageChange, masks, onMasksChange }, ref) => {
     const [rawImage, setRawImage] = useState<string | null>(null) // Original image for cropping
     const [showCropper, setShowCropper] = useState(false)
+    const [showMaskEditor, setShowMaskEditor] = useState(false)
     const fileInputRef = useRef<HTMLInputElement>(null)
     const frameRef = useRef<HTMLDivElement>(null)
 
@@ -101,6 +106,18 @@ const PhotoUpload = forwardRef<PhotoUploadHandle, PhotoUploadProps>(
       setShowCropper(false)
       setRawImage(null)
       onImageChange(croppedImage)
+      // Next step: optionally paint the clothing region
+      if (onMasksChange) setShowMaskEditor(true)
+    }
+
+    const handleMaskDone = (newMasks: GarmentMasks) => {
+      track('garment_mask_saved', { painted: !!(newMasks.top || newMasks.bottom), top: !!newMasks.top, bottom: !!newMasks.bottom })
+      setShowMaskEditor(false)
+      onMasksChange?.(newMasks)
+    }
+
+    const handleMaskSkip = () => {
+      setShowMaskEditor(false)
     }
 
     const handleCropCancel = () => {
@@ -159,6 +176,11 @@ const PhotoUpload = forwardRef<PhotoUploadHandle, PhotoUploadProps>(
               <button className="change-photo-link" onClick={handleChangePhoto}>
                 change photo
               </button>
+              {onMasksChange && (
+                <button className="edit-mask-link" onClick={() => setShowMaskEditor(true)}>
+                  {masks?.top || masks?.bottom ? 'edit clothes area' : 'paint clothes'}
+                </button>
+              )}
             </>
           )}
         </div>
@@ -179,6 +201,15 @@ const PhotoUpload = forwardRef<PhotoUploadHandle, PhotoUploadProps>(
             onCancel={handleCropCancel}
           />
         )}
+
+        {/* Mask editor - after cropping, or reopened from the frame */}
+        {showMaskEditor && image && (
+          <MaskEditor
+            image={image}
+            onDone={handleMaskDone}
+            onSkip={handleMaskSkip}
+          />
+        )}
       </div>
     )
   }
@@ -0,0 +1,94 @@
+import { useRef, useState } from 'react'
+import { readProvenance, type ImageProvenance } from '../utils/imageProvenance'
+import './ProvenanceVerifier.css'
+
+type VerifyState =
+  | { status: 'idle' }
+  | { status: 'found'; fileName: string; provenance: ImageProvenance }
+  | { status: 'missing'; fileName: string }
+
+function ProvenanceVerifier() {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [state, setState] = useState<VerifyState>({ status: 'idle' })
+  const [isDragOver, setIsDragOver] = useState(false)
+
+  const verifyFile = async (file: File) => {
+    const provenance = await readProvenance(file).catch(() => null)
+    setState(provenance
+      ? { status: 'found', fileName: file.name, provenance }
+      : { status: 'missing', fileName: file.name })
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) verifyFile(file)
+    e.target.value = ''
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setIsDragOver(false)
+    const file = e.dataTransfer.files[0]
+    if (file) verifyFile(file)
+  }
+
+  const formatTime = (iso: string) => {
+    const date = new Date(iso)
+    return isNaN(date.getTime()) ? iso : date.toLocaleString()
+  }
+
+  return (
+    <div className="provenance-verifier">
+      <h2 className="provenance-title">Check a TryIt image</h2>
+      <p className="provenance-subtitle">Drop an exported try-on image to see how it was made.</p>
+
+      <div
+        className={`provenance-dropzone ${isDragOver ? 'drag-over' : ''}`}
+        onClick={() => fileInputRef.current?.click()}
+        onDragOver={(e) => { e.preventDefault(); setIsDragOver(true) }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+      >
+        <p>Drop an image here or tap to choose</p>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/png"
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+      />
+
+      {state.status === 'missing' && (
+        <p className="provenance-result missing">
+          No TryIt provenance found in {state.fileName}. It may have been edited, screenshotted or re-saved.
+        </p>
+      )}
+
+      {state.status === 'found' && (
+        <div className="provenance-result found">
+          <p className="provenance-badge">AI-generated try-on image</p>
+          <dl className="provenance-fields">
+            <dt>File</dt>
+            <dd>{state.fileName}</dd>
+            <dt>Product</dt>
+            <dd>{state.provenance.product || '—'}</dd>
+            <dt>Recommended size</dt>
+            <dd>{state.provenance.recommendedSize || '—'}</dd>
+            <dt>Fit</dt>
+            <dd>{state.provenance.fitType || '—'}</dd>
+            <dt>Generated</dt>
+            <dd>{state.provenance.generatedAt ? formatTime(state.provenance.generatedAt) : '—'}</dd>
+            <dt>Prompt hash</dt>
+            <dd className="provenance-hash">{state.provenance.promptHash || '—'}</dd>
+            <dt>Software</dt>
+            <dd>{state.provenance.software}</dd>
+          </dl>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ProvenanceVerifier
@@ -0,0 +1,104 @@
+import { useState } from 'react'
+import { track } from '@vercel/analytics'
+import { getReferenceBrands, getReferenceCombos, getReferenceSizes, type ReferenceGarment } from '../utils/referenceGarment'
+import './ReferenceGarmentInput.css'
+
+interface ReferenceGarmentInputProps {
+  value: ReferenceGarment | null
+  onChange: (value: ReferenceGarment | null) => void
+}
+
+// Display names for guide genders
+const GENDER_LABELS: Record<string, string> = {
+  men: "Men's",
+  women: "Women's",
+  youth: 'Youth'
+}
+
+function comboKey(clothingType: string, gender: string): string {
+  return `${clothingType}|${gender}`
+}
+
+function ReferenceGarmentInput({ value, onChange }: ReferenceGarmentInputProps) {
+  const [isOpen, setIsOpen] = useState(value !== null)
+  const [brand, setBrand] = useState(value?.brand || '')
+  const [combo, setCombo] = useState(value ? comboKey(value.clothingType, value.gender) : '')
+
+  const brands = getReferenceBrands()
+  const combos = brand ? getReferenceCombos(brand) : []
+  const [clothingType, gender] = combo ? combo.split('|') : ['', '']
+  const sizes = brand && combo ? getReferenceSizes(brand, clothingType, gender) : []
+
+  const handleBrandChange = (next: string) => {
+    setBrand(next)
+    // Keep the clothing type when the new brand has it too
+    if (!getReferenceCombos(next).some(c => comboKey(c.clothing_type, c.gender) === combo)) setCombo('')
+    if (value) onChange(null)
+  }
+
+  const handleComboChange = (next: string) => {
+    setCombo(next)
+    if (value) onChange(null)
+  }
+
+  const handleSizeChange = (size: string) => {
+    if (!size) {
+      onChange(null)
+      return
+    }
+    track('reference_garment_set', { brand, clothingType, gender, size })
+    onChange({ brand, clothingType, gender, size })
+  }
+
+  const handleClear = () => {
+    setBrand('')
+    setCombo('')
+    setIsOpen(false)
+    onChange(null)
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        className="reference-garment-open"
+        onClick={() => {
+          track('reference_garment_open')
+          setIsOpen(true)
+        }}
+      >
+        Know a size they already wear?
+      </button>
+    )
+  }
+
+  return (
+    <div className="reference-garment">
+      <p className="reference-garment-intro">
+        Pick something they own and the size that fits them. Its size chart refines the estimate.
+      </p>
+      <div className="reference-garment-fields">
+        <select value={brand} onChange={(e) => handleBrandChange(e.target.value)} aria-label="Brand">
+          <option value="">Brand</option>
+          {brands.map(b => <option key={b} value={b}>{b}</option>)}
+        </select>
+        <select value={combo} onChange={(e) => handleComboChange(e.target.value)} disabled={!brand} aria-label="Item type">
+          <option value="">Type</option>
+          {combos.map(c => (
+            <option key={comboKey(c.clothing_type, c.gender)} value={comboKey(c.clothing_type, c.gender)}>
+              {GENDER_LABELS[c.gender] || c.gender} {c.clothing_type}
+            </option>
+          ))}
+        </select>
+        <select value={value?.size || ''} onChange={(e) => handleSizeChange(e.target.value)} disabled={sizes.length === 0} aria-label="Size">
+          <option value="">Size</option>
+          {sizes.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      </div>
+      <button className="reference-garment-clear" onClick={handleClear}>
+        Remove
+      </button>
+    </div>
+  )
+}
+
+export default ReferenceGarmentInput
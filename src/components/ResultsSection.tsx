@@ -1,15 +1,24 @@
 import { useState, useRef, useEffect, useMemo } from 'react'
 import { track } from '@vercel/analytics'
 import type { UserData } from '../App'
-import type { SizeRecommendation } from '../utils/sizeIdentifier'
-import { calculateDimension } from '../utils/sizeIdentifier'
-import type { BodyComposition } from '../utils/personAnalyzer'
-import type { SizeGuide } from '../utils/sizeCollector'
+import type { DimensionRecommendation, FitVariantSuggestion, MeasurementVerdict, RecommendationTrace, SizeRecommendation } from '../utils/sizeIdentifier'
+import type { SizeLikelihoods } from '../utils/sizeProbability'
+import type { Measurement } from '../utils/sizeCollector'
 import { convertSizeForDisplay, isBottomType } from '../utils/sizeCollector'
+import { normalizeSize, parseWaistInseam } from '../utils/sizeSystems'
+import { describeReference } from '../utils/referenceGarment'
+import type { FabricFitAdjustment } from '../utils/fiberContent'
 // Person analysis is now done in ShoppingPage and passed via userData.personAnalysis
-import { identifySize } from '../utils/sizeIdentifier'
-import { generateTryOnImage, type FitType as TryOnFitType } from '../utils/tryOnService'
-import { describeFit } from '../utils/fitDescriber'
+import { analyzeItemFit, buildClothingInfo, MEASUREMENT_LABELS, type CalculatedMeasurement } from '../utils/fitAnalyzer'
+import { generateTryOnImage, getProductCacheId, getViewItemId, isOuterwear, type ClothingInfo, type FitType as TryOnFitType, type LayeringMode } from '../utils/tryOnService'
+import { describeTryOnFailure, type TryOnFailure } from '../utils/tryOnRetry'
+import { getTryOnScheduler } from '../utils/tryOnScheduler'
+import { getCoBrandLogo } from '../utils/watermark'
+import type { TuckStyle } from '../utils/promptTemplates'
+import { embedProvenance } from '../utils/imageProvenance'
+import { preserveFace } from '../utils/facePreservation'
+import { getGarmentMask } from '../utils/garmentMask'
+import { useTryOnQueueStatus, describeQueueStatus } from '../hooks/useTryOnQueueStatus'
 import './ResultsSection.css'
 
 // Cached analysis from parent
@@ -18,6 +27,11 @@ interface CachedAnalysis {
     tight: string | null
     regular: string | null
     comfortable: string | null
+    dimensions?: DimensionRecommendation
+    fitVariant?: FitVariantSuggestion
+    fabricAdjustment?: FabricFitAdjustment
+    likelihoods?: SizeLikelihoods
+    trace?: RecommendationTrace
   }
   measurements: Array<{ name: string; value: number }>
 }
@@ -32,38 +46,14 @@ interface ResultsSectionProps {
   onImageGenerated?: (fit: FitType, imageDataUrl: string) => void
   onAnalysisComplete?: (analysis: CachedAnalysis) => void
   onScrollComplete?: () => void
+  tuckStyle?: TuckStyle | null  // Stored per item by the parent; null follows the photo analysis
+  onTuckStyleChange?: (tuckStyle: TuckStyle) => void  // The parent drops its stored images for the item too
+  layering?: LayeringMode       // Stored per item by the parent; outerwear only
+  onLayeringChange?: (layering: LayeringMode) => void  // The parent drops its stored images for the item too
 }
 
 type FitType = 'tight' | 'regular' | 'comfortable'
 
-// Calculated measurement with value
-interface CalculatedMeasurement {
-  name: string
-  value: number
-}
-
-// Size guide measurement for display under size cards
-interface SizeGuideMeasurement {
-  key: string
-  label: string
-  display: string
-}
-
-// Labels for body measurements
-const MEASUREMENT_LABELS: Record<string, string> = {
-  'chest': 'Chest',
-  'waist': 'Waist',
-  'hips': 'Hips',
-  'length': 'Body Length',
-  'body_length': 'Body Length',
-  'shoulders': 'Shoulders',
-  'inseam': 'Inseam',
-  'thigh': 'Thigh'
-}
-
-// Standard order for measurements display
-const MEASUREMENT_ORDER = ['chest', 'waist', 'hips', 'body_length', 'shoulders', 'inseam', 'thigh']
-
 /**
  * Abbreviate size label to single letter format (S, M, L, XL, XXL, XS, etc.)
  */
@@ -71,105 +61,23 @@ function abbreviateSize(size: string): string {
   return size.toUpperCase().trim()
 }
 
+// Verdict tags in the size comparison: how the body estimate sits in the size's range
+const VERDICT_LABELS: Record<MeasurementVerdict, string> = {
+  in_range: 'Fits',
+  smaller: 'Roomy',
+  larger: 'Snug'
+}
+
 /**
- * Get measurements for a specific size from the size guide
+ * Size guide range as shown in the comparison table ("88-96" or "71")
  */
-function getSizeGuideMeasurements(
-  sizeLabel: string,
-  sizeGuide: SizeGuide | null | undefined,
-  useInches: boolean = false
-): SizeGuideMeasurement[] {
-  if (!sizeGuide) return []
-
-  const sizeData = useInches && sizeGuide.inch?.length > 0 ? sizeGuide.inch : sizeGuide.cm
-  if (!sizeData || sizeData.length === 0) return []
-
-  const sizeEntry = sizeData.find(
-    s => s.label.toLowerCase() === sizeLabel.toLowerCase()
-  )
-  if (!sizeEntry) return []
-
-  const measurements: SizeGuideMeasurement[] = []
-  const measurementKeys = Object.keys(sizeEntry.measurements)
-
-  const priorityOrder = ['chest', 'waist', 'hips', 'body_length', 'shoulders', 'inseam', 'thigh']
-
-  const sortedKeys = [...measurementKeys].sort((a, b) => {
-    const aNorm = a.toLowerCase().replace(/\s+/g, '_')
-    const bNorm = b.toLowerCase().replace(/\s+/g, '_')
-    const aIndex = priorityOrder.indexOf(aNorm)
-    const bIndex = priorityOrder.indexOf(bNorm)
-    if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex
-    if (aIndex !== -1) return -1
-    if (bIndex !== -1) return 1
-    return 0
-  })
-
-  for (const key of sortedKeys) {
-    const normalizedKey = key.toLowerCase().replace(/\s+/g, '_')
-    if (normalizedKey.includes('sleeve')) continue
-
-    const label = MEASUREMENT_LABELS[normalizedKey]
-    if (!label) continue
-
-    const measurement = sizeEntry.measurements[key]
-    if (!measurement) continue
-
-    let display: string
-    if (measurement.min !== undefined && measurement.max !== undefined) {
-      display = `${measurement.min}-${measurement.max}`
-    } else if (measurement.value !== undefined) {
-      display = `${measurement.value}`
-    } else {
-      continue
-    }
-
-    measurements.push({ key: normalizedKey, label, display })
-  }
-
-  return measurements
+function formatRange(range: Measurement, toUnit: (cm: number) => number): string {
+  if (range.min !== undefined && range.max !== undefined) return `${toUnit(range.min)}-${toUnit(range.max)}`
+  return range.value !== undefined ? `${toUnit(range.value)}` : '–'
 }
 
-// calculateDimension is now imported from sizeIdentifier
-
-function calculateMeasurements(
-  heightCm: number,
-  weightKg: number,
-  measurementKeys: string[],
-  gender: 'male' | 'female' | 'unknown' = 'unknown',
-  bodyComposition: BodyComposition = 'average'
-): CalculatedMeasurement[] {
-  if (measurementKeys.length === 0) return []
-
-  const sortedKeys = [...measurementKeys].sort((a, b) => {
-    const aNorm = a.toLowerCase().replace(/\s+/g, '_')
-    const bNorm = b.toLowerCase().replace(/\s+/g, '_')
-    const aIndex = MEASUREMENT_ORDER.indexOf(aNorm)
-    const bIndex = MEASUREMENT_ORDER.indexOf(bNorm)
-    if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex
-    if (aIndex !== -1) return -1
-    if (bIndex !== -1) return 1
-    return 0
-  })
-
-  const measurements: CalculatedMeasurement[] = []
-
-  for (const key of sortedKeys) {
-    const normalizedKey = key.toLowerCase().replace(/\s+/g, '_')
-    const label = MEASUREMENT_LABELS[normalizedKey]
-    if (!label) continue
-
-    const value = calculateDimension(heightCm, weightKg, normalizedKey, gender, bodyComposition)
-    if (value === null) continue
-
-    measurements.push({
-      name: label,
-      value: Math.round(value * 10) / 10
-    })
-  }
-
-  return measurements
-}
+// Smallest likelihood (%) worth showing for the runner-up size
+const MIN_RUNNER_UP_PERCENT = 5
 
 // Loading messages sequence
 const LOADING_MESSAGES = [
@@ -185,7 +93,7 @@ type GeneratedImages = Record<FitType, string | null>
 // exported for ShoppingPage compatibility
 export function clearGenerationTracking(_itemUrl: string) { /* no-op */ }
 
-function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, shouldAutoScroll, resultsKey, onImageGenerated, onAnalysisComplete, onScrollComplete }: ResultsSectionProps) {
+function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, shouldAutoScroll, resultsKey, onImageGenerated, onAnalysisComplete, onScrollComplete, tuckStyle, onTuckStyleChange, layering = 'standalone', onLayeringChange }: ResultsSectionProps) {
   // If we have cached analysis, skip loading state
   const hasCachedData = !!cachedAnalysis
   const [isLoading, setIsLoading] = useState(!hasCachedData)
@@ -206,6 +114,14 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
     comfortable: initialImages?.comfortable || null
   })
   const [generatingFits, setGeneratingFits] = useState<Set<FitType>>(new Set())
+  const [failures, setFailures] = useState<Partial<Record<FitType, TryOnFailure>>>({})
+  // Back views are generated on request, one per fit, from the item's rear product shot
+  const [backImages, setBackImages] = useState<Partial<Record<FitType, string>>>({})
+  const [generatingBackFits, setGeneratingBackFits] = useState<Set<FitType>>(new Set())
+  const [backFailures, setBackFailures] = useState<Partial<Record<FitType, TryOnFailure>>>({})
+  // Face-preserved copy of each generated image; image is null when the two did not align
+  const [faceRestored, setFaceRestored] = useState<Partial<Record<FitType, { source: string; image: string | null }>>>({})
+  const [keepOriginalFace, setKeepOriginalFace] = useState(true)
   const [showShareModal, setShowShareModal] = useState(false)
   const [sharingFit, setSharingFit] = useState<FitType | null>(null)
   const [showInfoSheet, setShowInfoSheet] = useState(false)
@@ -213,6 +129,22 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
   const scrollContainerRef = useRef<HTMLDivElement>(null)
   const sectionRef = useRef<HTMLDivElement>(null)
   const startedGeneratingRef = useRef<Set<FitType>>(new Set())
+  // Generated image each fit's face preservation was last started for
+  const faceSourceRef = useRef<Partial<Record<FitType, string>>>({})
+  // Prompt hash and generation time per fit, embedded in exported images
+  const imageMetaRef = useRef<Partial<Record<FitType, { promptHash?: string; generatedAt?: number }>>>({})
+
+  // Cancels this section's queued/running try-on jobs (photo changed, new run, or card removed)
+  const generationControllerRef = useRef(new AbortController())
+  const itemId = userData.item?.id || ''
+  const cacheId = userData.item ? getProductCacheId(userData.item) : ''
+  const queueStatus = useTryOnQueueStatus(itemId)
+  const backQueueStatus = useTryOnQueueStatus(getViewItemId(itemId, 'back'))
+
+  const cancelGeneration = () => {
+    generationControllerRef.current.abort()
+    generationControllerRef.current = new AbortController()
+  }
 
   // Cycle through loading messages
   useEffect(() => {
@@ -233,100 +165,106 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
     comfortable: 'Relaxed'
   }
 
-  // Compute personalized fit sentence for a given fit type
-  // When out of range, extrapolate from the nearest available size with amplified intensity
-  const getFitSentence = (fit: FitType): string | undefined => {
-    const sizeGuide = userData.item?.sizeGuide
-    if (!sizeGuide || !sizeRec || measurements.length === 0) return undefined
-
-    const category = isBottomType(userData.item?.type || '') ? 'bottoms' as const : 'tops' as const
-    const itemType = userData.item?.type || ''
-    const itemName = userData.item?.name || ''
-    const recSize = sizeRec[fit]
-
-    if (recSize) {
-      // Normal case: size exists, compute fit directly
-      const sizeEntry = sizeGuide.cm.find(
-        s => s.label.toLowerCase() === recSize.toLowerCase()
-      )
-      if (!sizeEntry) return undefined
-      return describeFit(measurements, sizeEntry, fit, 0, category, itemType, itemName)
-    }
+  const canLayer = !!userData.item && isOuterwear(userData.item)
+  // Tuck styling applies to regular tops; defaults to how the shirt is worn in the photo
+  const canTuck = !!userData.item && !isBottomType(userData.item.type) && !canLayer
+  const tuck: TuckStyle = tuckStyle ?? (userData.personAnalysis?.shirt_tucked ? 'tucked' : 'untucked')
 
-    // Out of range: find nearest available size and extrapolate
-    const fallbackOrder: Record<FitType, { fits: FitType[]; shift: number }> = {
-      tight:       { fits: ['regular', 'comfortable'], shift: +1 },
-      regular:     { fits: ['tight', 'comfortable'],   shift: 0 },
-      comfortable: { fits: ['regular', 'tight'],       shift: -1 },
-    }
+  const getClothingInfo = (fit: FitType): ClothingInfo => ({
+    ...buildClothingInfo(userData.item, sizeRec, measurements, fit),
+    layering,
+    tuck: canTuck ? tuck : undefined
+  })
 
-    const { fits: fallbackFits, shift } = fallbackOrder[fit]
-    for (const fallbackFit of fallbackFits) {
-      const fallbackSize = sizeRec[fallbackFit]
-      if (!fallbackSize) continue
-      const sizeEntry = sizeGuide.cm.find(
-        s => s.label.toLowerCase() === fallbackSize.toLowerCase()
-      )
-      if (!sizeEntry) continue
-      return describeFit(measurements, sizeEntry, fit, shift, category, itemType, itemName)
-    }
+  const layeringLabels: Record<LayeringMode, string> = {
+    standalone: 'On its own',
+    layered_closed: 'Layered',
+    layered_open: 'Layered, open'
+  }
 
-    return undefined
+  const tuckLabels: Record<TuckStyle, string> = {
+    untucked: 'Untucked',
+    half_tuck: 'Half-tuck',
+    tucked: 'Tucked'
   }
 
   // Function to generate try-on image for a specific fit
-  const generateFitImage = async (fit: FitType, keyIndex: number = 0) => {
+  // Retries, backoff and circuit breaking happen in tryOnService; a failure here is final until the user retries
+  const generateFitImage = async (fit: FitType) => {
     if (!userData.image || !userData.item?.imageUrl) return
 
+    const signal = generationControllerRef.current.signal
     setGeneratingFits(prev => new Set(prev).add(fit))
+    setFailures(prev => ({ ...prev, [fit]: undefined }))
 
     try {
       const result = await generateTryOnImage(
         userData.image,
         userData.item.imageUrl,
-        {
-          name: userData.item.name || 'Clothing item',
-          type: userData.item.type || 'tops',
-          color: userData.item.color || '',
-          fitSentence: getFitSentence(fit)
-        },
+        getClothingInfo(fit),
         fit as TryOnFitType,
-        keyIndex,
-        userData.personAnalysis?.gender || 'unknown'
+        userData.personAnalysis?.gender || 'unknown',
+        { itemId, cacheId, signal, mask: getGarmentMask(userData.garmentMasks, userData.item.type), watermark: { coBrandLogoUrl: getCoBrandLogo(userData.item) } }
       )
 
       if (result.success && result.imageDataUrl) {
+        if (result.promptTemplate) {
+          track('tryon_generated', {
+            fit,
+            prompt: `${result.promptTemplate.id}@v${result.promptTemplate.version}`,
+            cached: !!result.fromCache
+          })
+        }
+        imageMetaRef.current[fit] = { promptHash: result.promptHash, generatedAt: result.generatedAt }
         setGeneratedImages(prev => ({ ...prev, [fit]: result.imageDataUrl }))
         onImageGenerated?.(fit, result.imageDataUrl!)
-        setGeneratingFits(prev => { const next = new Set(prev); next.delete(fit); return next })
-        return // done, skip second round
+      } else if (result.failure && result.failure.kind !== 'cancelled' && !signal.aborted) {
+        track('tryon_failed', { fit, kind: result.failure.kind, attempts: result.failure.attempts })
+        setFailures(prev => ({ ...prev, [fit]: result.failure }))
       }
-    } catch {
+    } finally {
+      setGeneratingFits(prev => {
+        const next = new Set(prev)
+        next.delete(fit)
+        return next
+      })
     }
+  }
+
+  // Back view for one fit: sends the rear product shot, queued and cached under the item's back-view id
+  const generateBackImage = async (fit: FitType) => {
+    if (!userData.image || !userData.item?.backImageUrl) return
+
+    const signal = generationControllerRef.current.signal
+    setGeneratingBackFits(prev => new Set(prev).add(fit))
+    setBackFailures(prev => ({ ...prev, [fit]: undefined }))
 
-    // First 5 attempts failed, give it 5 more
     try {
       const result = await generateTryOnImage(
-        userData.image!,
-        userData.item!.imageUrl,
-        {
-          name: userData.item!.name || 'Clothing item',
-          type: userData.item!.type || 'tops',
-          color: userData.item!.color || '',
-          fitSentence: getFitSentence(fit)
-        },
+        userData.image,
+        userData.item.backImageUrl,
+        getClothingInfo(fit),
         fit as TryOnFitType,
-        keyIndex,
-        userData.personAnalysis?.gender || 'unknown'
+        userData.personAnalysis?.gender || 'unknown',
+        { itemId, cacheId, signal, view: 'back', watermark: { coBrandLogoUrl: getCoBrandLogo(userData.item) } }
       )
 
       if (result.success && result.imageDataUrl) {
-        setGeneratedImages(prev => ({ ...prev, [fit]: result.imageDataUrl }))
-        onImageGenerated?.(fit, result.imageDataUrl!)
+        if (result.promptTemplate) {
+          track('tryon_generated', {
+            fit,
+            view: 'back',
+            prompt: `${result.promptTemplate.id}@v${result.promptTemplate.version}`,
+            cached: !!result.fromCache
+          })
+        }
+        setBackImages(prev => ({ ...prev, [fit]: result.imageDataUrl! }))
+      } else if (result.failure && result.failure.kind !== 'cancelled' && !signal.aborted) {
+        track('tryon_failed', { fit, view: 'back', kind: result.failure.kind, attempts: result.failure.attempts })
+        setBackFailures(prev => ({ ...prev, [fit]: result.failure }))
       }
-    } catch {
     } finally {
-      setGeneratingFits(prev => {
+      setGeneratingBackFits(prev => {
         const next = new Set(prev)
         next.delete(fit)
         return next
@@ -334,6 +272,34 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
     }
   }
 
+  // Drop every generated image (front and back) and cancel pending jobs so generation restarts
+  const clearGeneratedImages = () => {
+    cancelGeneration()
+    startedGeneratingRef.current.clear()
+    imageMetaRef.current = {}
+    setGeneratedImages({ tight: null, regular: null, comfortable: null })
+    setGeneratingFits(new Set())
+    setFailures({})
+    setBackImages({})
+    setGeneratingBackFits(new Set())
+    setBackFailures({})
+  }
+
+  // Styling changes replace every image; the image cache makes switching back instant
+  const handleLayeringChange = (mode: LayeringMode) => {
+    if (mode === layering) return
+    track('layering_toggle', { mode })
+    clearGeneratedImages()
+    onLayeringChange?.(mode)
+  }
+
+  const handleTuckChange = (style: TuckStyle) => {
+    if (style === tuck) return
+    track('tuck_toggle', { style, fromPhoto: !!userData.personAnalysis?.shirt_tucked })
+    clearGeneratedImages()
+    onTuckStyleChange?.(style)
+  }
+
   // Run analysis when section becomes visible
   useEffect(() => {
     if (!isVisible || hasStarted) return
@@ -347,64 +313,8 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
           return
         }
 
-        // Get height in cm
-        let heightCm = userData.height || 170
-        if (userData.heightUnit === 'ft' && userData.height) {
-          const feet = userData.height
-          const inches = userData.heightInches || 0
-          heightCm = (feet * 12 + inches) * 2.54
-        }
-
-        // Get weight in kg
-        let weightKg = userData.weight || 70
-        if (userData.weightUnit === 'lb' && userData.weight) {
-          weightKg = userData.weight * 0.453592
-        }
-
-        // Use cached person analysis or wait for it
-        let analysis = userData.personAnalysis
-        if (!analysis) {
-          // If analysis isn't ready yet, wait a bit and use default
-          analysis = {
-            gender: 'unknown' as const,
-            age_range: 'adult' as const,
-            body_composition: 'average' as const,
-            shirt_tucked: false,
-            confidence: 'low' as const,
-            proportions: {}
-          }
-        } else {
-        }
-
-        // Get measurement keys from size guide
-        const sizeGuide = userData.item?.sizeGuide
-        const measurementKeys = sizeGuide?.cm?.[0]?.measurements
-          ? Object.keys(sizeGuide.cm[0].measurements)
-          : []
-
-        // Calculate body measurements
-        const calculatedMeasurements = calculateMeasurements(
-          heightCm,
-          weightKg,
-          measurementKeys,
-          analysis.gender,
-          analysis.body_composition
-        )
+        const { sizeRec: recommendation, measurements: calculatedMeasurements } = analyzeItemFit(userData, userData.item)
         setMeasurements(calculatedMeasurements)
-
-        // Get size recommendation
-        const recommendation = identifySize(
-          {
-            height: heightCm,
-            weight: weightKg,
-            gender: analysis.gender === 'unknown' ? 'unknown' : analysis.gender,
-            bodyComposition: analysis.body_composition
-          },
-          userData.item?.sizeGuide || null,
-          (userData.item?.gender as 'men' | 'women' | 'unisex') || 'unisex',
-          userData.item?.availableSizes || []
-        )
-
         setSizeRec(recommendation)
 
         // Cache analysis results in parent
@@ -412,7 +322,12 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
           sizeRec: {
             tight: recommendation.tight,
             regular: recommendation.regular,
-            comfortable: recommendation.comfortable
+            comfortable: recommendation.comfortable,
+            dimensions: recommendation.dimensions,
+            fitVariant: recommendation.fitVariant,
+            fabricAdjustment: recommendation.fabricAdjustment,
+            likelihoods: recommendation.likelihoods,
+            trace: recommendation.trace
           },
           measurements: calculatedMeasurements
         })
@@ -437,7 +352,7 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
     }
   }, [isVisible, shouldAutoScroll, onScrollComplete])
 
-  // Generate try-on images in parallel (each uses a different API key via keyIndex)
+  // Queue try-on images for all three fits; the scheduler runs the on-screen fit first
   // Skip generation for fits that already have images from initialImages
   // Waits for sizeRec and measurements so getFitSentence has data to work with
   useEffect(() => {
@@ -446,24 +361,44 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
 
     const fits: FitType[] = ['tight', 'regular', 'comfortable']
 
-    fits.forEach((fit, index) => {
+    fits.forEach((fit) => {
       const hasExistingImage = !!generatedImages[fit]
       if (!startedGeneratingRef.current.has(fit) && !hasExistingImage) {
         startedGeneratingRef.current.add(fit)
-        generateFitImage(fit, index)
+        generateFitImage(fit)
       }
     })
   }, [userData.image, userData.item?.imageUrl, generatedImages, sizeRec, measurements])
 
+  // Tell the scheduler which item and fit are on screen so they run first
+  useEffect(() => {
+    if (isVisible && itemId) {
+      getTryOnScheduler().setFocus(itemId, selectedFit)
+    }
+  }, [isVisible, itemId, selectedFit])
+
+  // Cancel pending jobs for the old photo when the photo changes
+  const lastImageRef = useRef(userData.image)
+  useEffect(() => {
+    if (userData.image !== lastImageRef.current) {
+      lastImageRef.current = userData.image
+      cancelGeneration()
+    }
+  }, [userData.image])
+
+  // Cancel pending jobs when the section unmounts (item card removed)
+  useEffect(() => {
+    const controllerRef = generationControllerRef
+    return () => controllerRef.current.abort()
+  }, [])
+
   // When resultsKey changes ("Try it on" clicked), clear old state and restart generation
   const lastResultsKeyRef = useRef(resultsKey)
   useEffect(() => {
     if (resultsKey !== undefined && resultsKey !== lastResultsKeyRef.current) {
       console.log(`[ResultsSection] ${userData.item?.name} — resultsKey changed ${lastResultsKeyRef.current} → ${resultsKey}, resetting`)
       lastResultsKeyRef.current = resultsKey
-      startedGeneratingRef.current.clear()
-      setGeneratedImages({ tight: null, regular: null, comfortable: null })
-      setGeneratingFits(new Set())
+      clearGeneratedImages()
       setIsLoading(false)
       setHasStarted(false)
       setSizeRec(null)
@@ -476,6 +411,61 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
     return ['tight', 'regular', 'comfortable'] as FitType[]
   }, [])
 
+  // Likelihoods for the selected fit: the recommended size, then the runner-up
+  const sizeOdds = useMemo(() => {
+    const recommended = sizeRec?.[selectedFit]
+    const candidates = sizeRec?.likelihoods?.fits[selectedFit]
+    const top = candidates?.find(c => c.size === recommended)
+    if (!top) return []
+    const odds = [{ size: top.size, percent: Math.round(top.probability * 100) }]
+    const runnerUp = candidates?.find(c => c.size !== recommended)
+    if (runnerUp && Math.round(runnerUp.probability * 100) >= MIN_RUNNER_UP_PERCENT) {
+      odds.push({ size: runnerUp.size, percent: Math.round(runnerUp.probability * 100) })
+    }
+    return odds
+  }, [sizeRec, selectedFit])
+
+  const formatSize = (size: string) =>
+    convertSizeForDisplay(abbreviateSize(size), userData.item?.brand, userData.item?.gender, userData.item?.availableSizes)
+
+  // Blend the photo's face back into each new front-view image
+  useEffect(() => {
+    const photo = userData.image
+    if (!photo) return
+
+    availableFits.forEach((fit) => {
+      const source = generatedImages[fit]
+      if (!source || faceSourceRef.current[fit] === source) return
+      faceSourceRef.current[fit] = source
+
+      preserveFace(source, photo)
+        .then((result) => {
+          if (faceSourceRef.current[fit] !== source) return
+          track('face_preservation', { fit, applied: !!result.imageDataUrl, headSource: result.headSource ?? 'none', alignmentError: result.alignmentError })
+          setFaceRestored(prev => ({ ...prev, [fit]: { source, image: result.imageDataUrl } }))
+        })
+        .catch((err) => console.warn(`[ResultsSection] Face preservation failed for ${fit}:`, err))
+    })
+  }, [generatedImages, userData.image, availableFits])
+
+  // Face-preserved image when the toggle is on and it aligned, otherwise the generated one
+  const getDisplayImage = (fit: FitType): string | null => {
+    const source = generatedImages[fit]
+    const restored = faceRestored[fit]
+    if (keepOriginalFace && source && restored?.source === source && restored.image) return restored.image
+    return source
+  }
+  const hasFaceRestored = availableFits.some(fit => {
+    const restored = faceRestored[fit]
+    return !!restored?.image && restored.source === generatedImages[fit]
+  })
+
+  const handleFaceToggle = (keep: boolean) => {
+    if (keep === keepOriginalFace) return
+    track('face_preserve_toggle', { keep })
+    setKeepOriginalFace(keep)
+  }
+
   // scrollContainerRef kept for potential future use
 
   // Tracks whether we're in the middle of a programmatic scroll
@@ -542,37 +532,33 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
     setSelectedFit(fit)
   }
 
-  const fitKeyIndex: Record<FitType, number> = { tight: 0, regular: 1, comfortable: 2 }
-
-  const handleRegenerate = async () => {
-    const currentFit = selectedFit
+  const handleRegenerate = async (currentFit: FitType) => {
     if (!userData.image || !userData.item?.imageUrl) return
 
     console.log(`[TryOn] Regenerating ${currentFit}...`)
+    const signal = generationControllerRef.current.signal
     setRegeneratingFits(prev => new Set(prev).add(currentFit))
+    setFailures(prev => ({ ...prev, [currentFit]: undefined }))
 
     try {
       const result = await generateTryOnImage(
         userData.image,
         userData.item.imageUrl,
-        {
-          name: userData.item.name || 'Clothing item',
-          type: userData.item.type || 'tops',
-          color: userData.item.color || '',
-          fitSentence: getFitSentence(currentFit)
-        },
+        getClothingInfo(currentFit),
         currentFit as TryOnFitType,
-        fitKeyIndex[currentFit],
-        userData.personAnalysis?.gender || 'unknown'
+        userData.personAnalysis?.gender || 'unknown',
+        { itemId, cacheId, signal, skipCache: true, mask: getGarmentMask(userData.garmentMasks, userData.item.type), watermark: { coBrandLogoUrl: getCoBrandLogo(userData.item) } }
       )
 
       if (result.success && result.imageDataUrl) {
+        imageMetaRef.current[currentFit] = { promptHash: result.promptHash, generatedAt: result.generatedAt }
         setGeneratedImages(prev => ({ ...prev, [currentFit]: result.imageDataUrl }))
         // Notify parent of regenerated image
         onImageGenerated?.(currentFit, result.imageDataUrl)
-      } else {
+      } else if (result.failure && result.failure.kind !== 'cancelled' && !signal.aborted) {
+        track('tryon_failed', { fit: currentFit, kind: result.failure.kind, attempts: result.failure.attempts })
+        setFailures(prev => ({ ...prev, [currentFit]: result.failure }))
       }
-    } catch (err) {
     } finally {
       setRegeneratingFits(prev => {
         const next = new Set(prev)
@@ -597,14 +583,24 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
 
   // Share image with native share API
   const handleShareImage = async (fit: FitType) => {
-    const imageSrc = generatedImages[fit]
+    const imageSrc = getDisplayImage(fit)
     if (!imageSrc) return
 
     track('share_attempt', { fit })
     setSharingFit(fit)
     try {
-      // Image already has watermark from tryOnService, just convert to blob
-      const imageBlob = dataUrlToBlob(imageSrc)
+      // Image already has watermark from tryOnService; tag it as AI-generated before it leaves the app
+      const meta = imageMetaRef.current[fit] || {}
+      const recommendedSize = sizeRec?.[fit]
+      const imageBlob = await embedProvenance(dataUrlToBlob(imageSrc), {
+        product: userData.item?.name || '',
+        recommendedSize: recommendedSize
+          ? convertSizeForDisplay(abbreviateSize(recommendedSize), userData.item?.brand, userData.item?.gender, userData.item?.availableSizes)
+          : null,
+        fitType: fit,
+        generatedAt: new Date(meta.generatedAt ?? Date.now()).toISOString(),
+        promptHash: meta.promptHash || ''
+      })
       const file = new File([imageBlob], `tryit-${fit}-fit.png`, { type: 'image/png' })
 
       if (navigator.share && navigator.canShare({ files: [file] })) {
@@ -632,16 +628,6 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
   // Get fits that have generated images (for share modal)
   const sharableFits = availableFits.filter(fit => generatedImages[fit])
 
-  // Get size guide measurements for each fit type
-  const useInches = userData.heightUnit === 'ft'
-  const sizeGuide = userData.item?.sizeGuide
-
-  const getSizeMeasurements = (fit: FitType) => {
-    const size = sizeRec?.[fit]
-    if (!size) return []
-    return getSizeGuideMeasurements(size, sizeGuide, useInches)
-  }
-
   if (!isVisible) return null
 
   if (isLoading) {
@@ -694,15 +680,34 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
             {availableFits.map((fit) => {
               const isGenerating = generatingFits.has(fit) || regeneratingFits.has(fit)
               const hasImage = !!generatedImages[fit]
+              const failure = failures[fit]
 
               return (
                 <div key={fit} className="carousel-slide">
-                  {isGenerating || !hasImage ? (
+                  {failure && !isGenerating ? (
+                    <div className="image-frame loading-frame failed-frame">
+                      {(hasImage || userData.image) && (
+                        <div
+                          className="loading-blur-background"
+                          style={{ backgroundImage: `url(${hasImage ? getDisplayImage(fit) : userData.image})` }}
+                        />
+                      )}
+                      <div className="loading">
+                        <p>{describeTryOnFailure(failure)}</p>
+                        <button
+                          className="retry-button"
+                          onClick={() => hasImage ? handleRegenerate(fit) : generateFitImage(fit)}
+                        >
+                          Try again
+                        </button>
+                      </div>
+                    </div>
+                  ) : isGenerating || !hasImage ? (
                     <div className="image-frame loading-frame">
                       {generatedImages[fit] ? (
                         <div
                           className="loading-blur-background"
-                          style={{ backgroundImage: `url(${generatedImages[fit]})` }}
+                          style={{ backgroundImage: `url(${getDisplayImage(fit)})` }}
                         />
                       ) : userData.image ? (
                         <div
@@ -712,17 +717,17 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
                       ) : null}
                       <div className="loading">
                         <div className="spinner"></div>
-                        <p>{regeneratingFits.has(fit) ? 'Regenerating the fit...' : 'Generating try-on...'}</p>
+                        <p>{describeQueueStatus(queueStatus[fit], regeneratingFits.has(fit))}</p>
                       </div>
                     </div>
                   ) : (
                     <div className="image-frame">
                       <div
                         className="blur-background"
-                        style={{ backgroundImage: `url(${generatedImages[fit]})` }}
+                        style={{ backgroundImage: `url(${getDisplayImage(fit)})` }}
                       />
                       <img
-                        src={generatedImages[fit]!}
+                        src={getDisplayImage(fit)!}
                         alt={`${fitLabels[fit]} preview`}
                         className="fit-image"
                       />
@@ -733,10 +738,10 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
             })}
           </div>
           {/* Regenerate button - fixed position over carousel */}
-          {generatedImages[selectedFit] && !regeneratingFits.has(selectedFit) && !generatingFits.has(selectedFit) && (
+          {generatedImages[selectedFit] && !failures[selectedFit] && !regeneratingFits.has(selectedFit) && !generatingFits.has(selectedFit) && (
             <button
               className="regenerate-button"
-              onClick={handleRegenerate}
+              onClick={() => handleRegenerate(selectedFit)}
             >
               <svg className="regenerate-icon" width="12" height="12" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
                 <path d="M1 4V10H7" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"/>
@@ -747,6 +752,72 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
           )}
         </div>
 
+        {/* Back view row - same fit order and swipe position as the front row */}
+        {userData.item?.backImageUrl && (
+          <>
+            <p className="back-view-label">Back view</p>
+            <div className="image-carousel-wrapper">
+              <div
+                className={`image-carousel${isDragging ? ' dragging' : ''}`}
+                style={{ transform: carouselTransform }}
+                onTouchStart={handleTouchStart}
+                onTouchMove={handleTouchMove}
+                onTouchEnd={handleTouchEnd}
+              >
+                {availableFits.map((fit) => {
+                  const backImage = backImages[fit]
+                  const backFailure = backFailures[fit]
+
+                  return (
+                    <div key={fit} className="carousel-slide">
+                      {backImage ? (
+                        <div className="image-frame">
+                          <div
+                            className="blur-background"
+                            style={{ backgroundImage: `url(${backImage})` }}
+                          />
+                          <img
+                            src={backImage}
+                            alt={`${fitLabels[fit]} back view`}
+                            className="fit-image"
+                          />
+                        </div>
+                      ) : (
+                        <div className={`image-frame loading-frame${backFailure ? ' failed-frame' : ''}`}>
+                          {(generatedImages[fit] || userData.image) && (
+                            <div
+                              className="loading-blur-background"
+                              style={{ backgroundImage: `url(${generatedImages[fit] || userData.image})` }}
+                            />
+                          )}
+                          <div className="loading">
+                            {generatingBackFits.has(fit) ? (
+                              <>
+                                <div className="spinner"></div>
+                                <p>{describeQueueStatus(backQueueStatus[fit], false)}</p>
+                              </>
+                            ) : (
+                              <>
+                                {backFailure && <p>{describeTryOnFailure(backFailure)}</p>}
+                                <button
+                                  className="retry-button"
+                                  onClick={() => generateBackImage(fit)}
+                                >
+                                  {backFailure ? 'Try again' : 'See the back'}
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          </>
+        )}
+
         {/* Dot indicators - only show if multiple fits available */}
         {availableFits.length > 1 && (
           <div className="carousel-dots">
@@ -762,6 +833,57 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
         )}
       </div>
 
+      {/* Face toggle - only once at least one image aligned with the photo */}
+      {hasFaceRestored && (
+        <div className="size-picker-container styling-toggle">
+          <div className="size-picker">
+            {[true, false].map((keep) => (
+              <button
+                key={String(keep)}
+                className={`size-picker-card ${keepOriginalFace === keep ? 'selected' : ''}`}
+                onClick={() => handleFaceToggle(keep)}
+              >
+                <span className="size-picker-label">{keep ? 'Original face' : 'As generated'}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Layering toggle - outerwear only */}
+      {canLayer && (
+        <div className="size-picker-container styling-toggle">
+          <div className="size-picker">
+            {(['standalone', 'layered_closed', 'layered_open'] as LayeringMode[]).map((mode) => (
+              <button
+                key={mode}
+                className={`size-picker-card ${layering === mode ? 'selected' : ''}`}
+                onClick={() => handleLayeringChange(mode)}
+              >
+                <span className="size-picker-label">{layeringLabels[mode]}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Tuck toggle - regular tops only */}
+      {canTuck && (
+        <div className="size-picker-container styling-toggle">
+          <div className="size-picker">
+            {(['untucked', 'half_tuck', 'tucked'] as TuckStyle[]).map((style) => (
+              <button
+                key={style}
+                className={`size-picker-card ${tuck === style ? 'selected' : ''}`}
+                onClick={() => handleTuckChange(style)}
+              >
+                <span className="size-picker-label">{tuckLabels[style]}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Size cards picker - all three fits always available */}
       <div className="size-picker-container">
         <div className="size-picker">
@@ -787,10 +909,28 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
         <p className="suggested-size-subtitle">Or use as a reference when shopping for someone else.</p>
         <div className="suggested-size-row">
           {sizeRec?.[selectedFit] ? (
-            <span className="suggested-size-value">{convertSizeForDisplay(abbreviateSize(sizeRec[selectedFit]!), userData.item?.brand, userData.item?.gender, userData.item?.availableSizes)}</span>
+            <span className="suggested-size-value">
+              {sizeOdds.length > 0 ? sizeOdds.map((odds, i) => (
+                <span key={odds.size} className={`suggested-size-odds ${i > 0 ? 'runner-up' : ''}`}>
+                  {i > 0 && <span className="suggested-size-separator">·</span>}
+                  {formatSize(odds.size)}
+                  <span className="suggested-size-percent">{odds.percent}%</span>
+                </span>
+              )) : formatSize(sizeRec[selectedFit]!)}
+            </span>
           ) : (
             <span className="suggested-size-value out-of-range">Out of range</span>
           )}
+          {(() => {
+            // Waist × inseam bottoms: spell out each dimension of the combined label
+            const dims = sizeRec?.dimensions && parseWaistInseam(sizeRec[selectedFit] || '')
+            return dims ? <span className="suggested-size-dimensions">Waist {dims.waist} · Inseam {dims.inseam}</span> : null
+          })()}
+          {sizeRec?.fitVariant && (
+            <span className="suggested-size-variant">
+              Also sold in {sizeRec.fitVariant.variant}: {convertSizeForDisplay(sizeRec.fitVariant.size, userData.item?.brand, userData.item?.gender, userData.item?.availableSizes)}
+            </span>
+          )}
           <button className="info-icon-button" onClick={() => { track('size_guide_view', { brand: userData.item?.brand || 'unknown' }); setShowInfoSheet(true) }} aria-label="Size info">
             <svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
               <circle cx="10" cy="10" r="9" stroke="currentColor" strokeWidth="1.5"/>
@@ -809,44 +949,60 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
             <div className="info-sheet-content">
               <h3 className="info-sheet-title">How size is estimated</h3>
               <p className="info-sheet-text">
-                This estimate is based on height, weight, and this item's size guide.
+                This estimate is based on {[
+                  sizeRec?.trace?.measured.length && 'the tape measurements entered',
+                  sizeRec?.trace?.referenced.length && userData.referenceGarment && `the size chart of their ${describeReference(userData.referenceGarment)}`,
+                  'height, weight'
+                ].filter(Boolean).join(', ')}, and {userData.item?.sizeGuide?.generic
+                  ? `a generic youth size chart, not ${userData.item.brand ? `${userData.item.brand}'s` : 'the brand'} own.`
+                  : "this item's size guide."}
               </p>
+              {sizeRec?.fitVariant && (
+                <p className="info-sheet-text">{sizeRec.fitVariant.reason}</p>
+              )}
+              {sizeRec?.fabricAdjustment && (
+                <p className="info-sheet-text">{sizeRec.fabricAdjustment.reason}{sizeRec.trace?.candidates.length ? ' The size ranges below allow for it.' : ''}</p>
+              )}
+              {sizeRec?.trace && (
+                <p className="info-sheet-text">
+                  {sizeRec.trace.ruleReason}
+                  {selectedFit !== 'regular' && ` ${sizeRec.trace.neighbors[selectedFit]}`}
+                </p>
+              )}
               {(() => {
-                const sizeMeasurements = getSizeMeasurements(selectedFit)
-                const selectedSize = sizeRec?.[selectedFit] || ''
-                const displaySelectedSize = selectedSize ? convertSizeForDisplay(abbreviateSize(selectedSize), userData.item?.brand, userData.item?.gender, userData.item?.availableSizes) : ''
+                const selectedSize = sizeRec?.[selectedFit]
+                const trace = sizeRec?.trace
+                const candidate = selectedSize
+                  ? trace?.candidates.find(c => normalizeSize(c.size) === normalizeSize(selectedSize))
+                  : undefined
+                if (!selectedSize || !trace || !candidate || candidate.measurements.length === 0) return null
+
+                const displaySelectedSize = convertSizeForDisplay(abbreviateSize(selectedSize), userData.item?.brand, userData.item?.gender, userData.item?.availableSizes)
                 const unit = userData.heightUnit === 'ft' ? 'in' : 'cm'
-
-                // Only show measurements that exist in the size guide
-                const visibleMeasurements = measurements.filter((m) => {
-                  const normalizedName = m.name.toLowerCase().replace(/\s+/g, '_')
-                  return sizeMeasurements.some(sm => sm.key === normalizedName)
-                })
-
-                if (visibleMeasurements.length === 0) return null
+                const toUnit = (cm: number) => userData.heightUnit === 'ft' ? Math.round(cm / 2.54 * 10) / 10 : cm
 
                 return (
                   <div className="info-sheet-comparison">
                     <div className="info-sheet-comparison-header">
                       <span>Measurement</span>
-                      <span>Estimated body</span>
+                      <span>Body</span>
                       <span>Size {displaySelectedSize}</span>
                     </div>
-                    {visibleMeasurements.map((m) => {
-                      const userValue = userData.heightUnit === 'ft'
-                        ? Math.round(m.value / 2.54 * 10) / 10
-                        : m.value
-                      const normalizedName = m.name.toLowerCase().replace(/\s+/g, '_')
-                      const sizeM = sizeMeasurements.find(sm => sm.key === normalizedName)
-
-                      return (
-                        <div key={m.name} className="info-sheet-comparison-row">
-                          <span>{m.name} ({unit})</span>
-                          <span>{userValue}</span>
-                          <span>{sizeM!.display}</span>
-                        </div>
-                      )
-                    })}
+                    {candidate.measurements.map((m) => (
+                      <div key={m.key} className="info-sheet-comparison-row">
+                        <span>{MEASUREMENT_LABELS[m.key] || m.key} ({unit})</span>
+                        <span>
+                          {toUnit(m.estimate)}
+                          <em className="info-sheet-source">
+                            {trace.measured.includes(m.key) ? 'Measured' : trace.referenced.includes(m.key) ? 'With reference' : 'Estimated'}
+                          </em>
+                        </span>
+                        <span>
+                          {formatRange(m.range, toUnit)}
+                          <em className={`info-sheet-verdict ${m.verdict}`}>{VERDICT_LABELS[m.verdict]}</em>
+                        </span>
+                      </div>
+                    ))}
                   </div>
                 )
               })()}
@@ -890,7 +1046,7 @@ function ResultsSection({ userData, isVisible, initialImages, cachedAnalysis, sh
                   onClick={() => handleShareImage(fit)}
                   disabled={sharingFit === fit}
                 >
-                  <img src={generatedImages[fit]!} alt={fitLabels[fit]} />
+                  <img src={getDisplayImage(fit)!} alt={fitLabels[fit]} />
                   <span className="share-image-label">{fitLabels[fit]}</span>
                 </button>
               ))}
@@ -3,10 +3,21 @@ import { track } from '@vercel/analytics'
 import type { UserData } from '../App'
 import PhotoUpload from './PhotoUpload'
 import MeasurementPickers from './MeasurementPickers'
+import TapeMeasureInput from './TapeMeasureInput'
+import ReferenceGarmentInput from './ReferenceGarmentInput'
 import BarcodeScanner from './BarcodeScanner'
 import ResultsSection, { clearGenerationTracking } from './ResultsSection'
 import ResultsSectionDemo from './ResultsSectionDemo'
+import OutfitSection from './OutfitSection'
 import { analyzePersonPhoto } from '../utils/personAnalyzer'
+import type { TuckStyle } from '../utils/promptTemplates'
+import type { LayeringMode } from '../utils/tryOnService'
+import { applyColorVariant } from '../utils/colorVariants'
+import { applyRecipientSizeGuide } from '../utils/sizeCollector'
+import type { DimensionRecommendation, FitVariantSuggestion, RecommendationTrace, TapeMeasurements } from '../utils/sizeIdentifier'
+import type { SizeLikelihoods } from '../utils/sizeProbability'
+import type { ReferenceGarment } from '../utils/referenceGarment'
+import type { FabricFitAdjustment } from '../utils/fiberContent'
 import './ShoppingPage.css'
 
 /**
@@ -68,6 +79,11 @@ interface CachedAnalysis {
     tight: string | null
     regular: string | null
     comfortable: string | null
+    dimensions?: DimensionRecommendation
+    fitVariant?: FitVariantSuggestion
+    fabricAdjustment?: FabricFitAdjustment
+    likelihoods?: SizeLikelihoods
+    trace?: RecommendationTrace
   }
   measurements: Array<{ name: string; value: number }>
 }
@@ -76,9 +92,11 @@ interface CachedAnalysis {
 interface ItemTryOnState {
   showResults: boolean
   resultsKey: number
-  generatedImages: GeneratedImages
+  generatedImages: Record<string, GeneratedImages>  // Keyed by colorway, so switching colors back is instant
   cachedAnalysis: CachedAnalysis | null
   shouldAutoScroll: boolean  // Only true when "Try it on" is clicked, not when switching cards
+  tuckStyle: TuckStyle | null  // Shopper's tuck choice; null follows the photo analysis
+  layering: LayeringMode       // Outerwear on its own or over the person's top
   generatedData: {
     image: string | null
     weight: number | null
@@ -86,6 +104,9 @@ interface ItemTryOnState {
     height: number | null
     heightUnit: string
     heightInches: number | null
+    growthAllowance: boolean
+    tapeMeasurements: TapeMeasurements | undefined
+    referenceGarment: ReferenceGarment | null | undefined
   } | null
 }
 
@@ -164,6 +185,8 @@ function ShoppingPage({ userData, onUpdate }: ShoppingPageProps) {
     generatedImages: {},
     cachedAnalysis: null,
     shouldAutoScroll: false,
+    tuckStyle: null,
+    layering: 'standalone',
     generatedData: null
   }
 
@@ -180,7 +203,10 @@ function ShoppingPage({ userData, onUpdate }: ShoppingPageProps) {
     lastGenerated.weightUnit !== userData.weightUnit ||
     lastGenerated.height !== userData.height ||
     lastGenerated.heightUnit !== userData.heightUnit ||
-    lastGenerated.heightInches !== userData.heightInches
+    lastGenerated.heightInches !== userData.heightInches ||
+    lastGenerated.growthAllowance !== userData.growthAllowance ||
+    lastGenerated.tapeMeasurements !== userData.tapeMeasurements ||
+    lastGenerated.referenceGarment !== userData.referenceGarment
 
   // Can only try it on if we have data AND (haven't generated yet OR data changed)
   const canTryIt = hasRequiredData && hasDataChanged
@@ -206,7 +232,7 @@ function ShoppingPage({ userData, onUpdate }: ShoppingPageProps) {
     }
 
     // Clear generation tracking so new generations can start
-    if (userData.item?.imageUrl) clearGenerationTracking(userData.item.imageUrl)
+    if (userData.item?.imageUrl) clearGenerationTracking(applyColorVariant(userData.item).imageUrl)
 
     // Keep old images visible while new ones generate
     setTryOnState(prev => ({
@@ -217,20 +243,25 @@ function ShoppingPage({ userData, onUpdate }: ShoppingPageProps) {
         generatedImages: {},
         cachedAnalysis: null,
         shouldAutoScroll: true,
+        tuckStyle: prev[currentItemId]?.tuckStyle ?? null,
+        layering: prev[currentItemId]?.layering ?? 'standalone',
         generatedData: {
           image: userData.image,
           weight: userData.weight,
           weightUnit: userData.weightUnit,
           height: userData.height,
           heightUnit: userData.heightUnit,
-          heightInches: userData.heightInches
+          heightInches: userData.heightInches,
+          growthAllowance: userData.growthAllowance,
+          tapeMeasurements: userData.tapeMeasurements,
+          referenceGarment: userData.referenceGarment
         }
       }
     }))
   }
 
   // Handlers accept itemId so they always save to the correct item
-  const handleImageGenerated = (fit: FitType, imageDataUrl: string) => {
+  const handleImageGenerated = (fit: FitType, imageDataUrl: string, color: string) => {
     if (!currentItemId) return
     setTryOnState(prev => ({
       ...prev,
@@ -238,7 +269,10 @@ function ShoppingPage({ userData, onUpdate }: ShoppingPageProps) {
         ...prev[currentItemId],
         generatedImages: {
           ...prev[currentItemId]?.generatedImages,
-          [fit]: imageDataUrl
+          [color]: {
+            ...prev[currentItemId]?.generatedImages?.[color],
+            [fit]: imageDataUrl
+          }
         }
       }
     }))
@@ -255,6 +289,31 @@ function ShoppingPage({ userData, onUpdate }: ShoppingPageProps) {
     }))
   }
 
+  // Images of the previous styling (every colorway) must not come back on remount
+  const handleTuckStyleChange = (tuckStyle: TuckStyle) => {
+    if (!currentItemId) return
+    setTryOnState(prev => ({
+      ...prev,
+      [currentItemId]: {
+        ...prev[currentItemId],
+        tuckStyle,
+        generatedImages: {}
+      }
+    }))
+  }
+
+  const handleLayeringChange = (layering: LayeringMode) => {
+    if (!currentItemId) return
+    setTryOnState(prev => ({
+      ...prev,
+      [currentItemId]: {
+        ...prev[currentItemId],
+        layering,
+        generatedImages: {}
+      }
+    }))
+  }
+
   const handleScrollComplete = () => {
     if (!currentItemId) return
     setTryOnState(prev => ({
@@ -273,7 +332,9 @@ function ShoppingPage({ userData, onUpdate }: ShoppingPageProps) {
         <h2 className="section-title">Who's wearing it?</h2>
         <PhotoUpload
           image={userData.image}
-          onImageChange={(image) => onUpdate({ image })}
+          onImageChange={(image) => onUpdate({ image, garmentMasks: {} })}
+          masks={userData.garmentMasks}
+          onMasksChange={(garmentMasks) => onUpdate({ garmentMasks })}
         />
       </section>
 
@@ -287,6 +348,29 @@ function ShoppingPage({ userData, onUpdate }: ShoppingPageProps) {
           heightInches={userData.heightInches}
           onUpdate={onUpdate}
         />
+        {userData.personAnalysis?.age_range === 'children' && (
+          <label className="growth-allowance-toggle">
+            <input
+              type="checkbox"
+              checked={userData.growthAllowance}
+              onChange={(e) => {
+                track('growth_allowance_toggle', { enabled: e.target.checked })
+                onUpdate({ growthAllowance: e.target.checked })
+              }}
+            />
+            Leave room to grow
+          </label>
+        )}
+        <TapeMeasureInput
+          key={userData.heightUnit}
+          values={userData.tapeMeasurements || {}}
+          unit={userData.heightUnit === 'ft' ? 'in' : 'cm'}
+          onChange={(tapeMeasurements) => onUpdate({ tapeMeasurements })}
+        />
+        <ReferenceGarmentInput
+          value={userData.referenceGarment ?? null}
+          onChange={(referenceGarment) => onUpdate({ referenceGarment })}
+        />
       </section>
 
       {/* Section 3: Barcode Scanner / Item Card - uses gap for spacing to button */}
@@ -315,8 +399,10 @@ function ShoppingPage({ userData, onUpdate }: ShoppingPageProps) {
       {Object.entries(tryOnState).map(([itemId, itemState]) => {
         if (!itemState.showResults) return null
         const isActive = itemId === displayItemId
-        const item = userData.items?.find(i => i.id === itemId)
-        if (!item) return null
+        const scannedItem = userData.items?.find(i => i.id === itemId)
+        if (!scannedItem) return null
+        // Try on the selected colorway; each color gets its own results section and images
+        const item = applyRecipientSizeGuide(applyColorVariant(scannedItem), userData.personAnalysis?.age_range)
 
         return (
           <div
@@ -331,20 +417,28 @@ function ShoppingPage({ userData, onUpdate }: ShoppingPageProps) {
               />
             ) : (
               <ResultsSection
+                key={item.color}
                 userData={{ ...userData, item }}
                 isVisible={isActive}
-                initialImages={itemState.generatedImages}
+                initialImages={itemState.generatedImages[item.color]}
                 cachedAnalysis={itemState.cachedAnalysis}
                 shouldAutoScroll={isActive && itemState.shouldAutoScroll}
                 resultsKey={itemState.resultsKey}
-                onImageGenerated={handleImageGenerated}
+                onImageGenerated={(fit, imageDataUrl) => handleImageGenerated(fit, imageDataUrl, item.color)}
                 onAnalysisComplete={handleAnalysisComplete}
                 onScrollComplete={handleScrollComplete}
+                tuckStyle={itemState.tuckStyle}
+                onTuckStyleChange={handleTuckStyleChange}
+                layering={itemState.layering}
+                onLayeringChange={handleLayeringChange}
               />
             )}
           </div>
         )
       })}
+
+      {/* Outfit try-on — top + bottom from the scanned stack */}
+      {!USE_DEMO_MODE && <OutfitSection userData={userData} />}
     </div>
   )
 }
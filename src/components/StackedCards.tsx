@@ -2,6 +2,7 @@ import React, { useState, useRef, useCallback, useEffect, useLayoutEffect } from
 import './StackedCards.css';
 import DukeLogo from '../assets/Duke Logo.png';
 import { removeWhiteBackground } from '../utils/removeWhiteBackground';
+import { getColorSwatch } from '../utils/colorVariants';
 
 const BACKEND_URL = 'https://closai-backend.vercel.app';
 
@@ -13,12 +14,16 @@ export interface ClothingItem {
   price?: string;
   size?: string;
   gender?: string;
+  colors?: string[];        // Colorway names; the picker shows when there are two or more
+  fabric?: { summary: string; reason: string };  // Fabric fit adjustment, e.g. "100% cotton: may shrink"
+  selectedColor?: string;
 }
 
 interface StackedCardsProps {
   items: ClothingItem[];
   onItemSelect?: (item: ClothingItem, index: number) => void;
   onRemoveItem?: (item: ClothingItem, index: number) => void;
+  onColorSelect?: (item: ClothingItem, index: number, color: string) => void;
   initialIndex?: number;
   navigationTrigger?: number;
   showDuplicateNotification?: boolean;
@@ -51,6 +56,7 @@ const StackedCards: React.FC<StackedCardsProps> = ({
   items,
   onItemSelect,
   onRemoveItem,
+  onColorSelect,
   initialIndex = 0,
   navigationTrigger = 0,
   showDuplicateNotification = false,
@@ -65,10 +71,10 @@ const StackedCards: React.FC<StackedCardsProps> = ({
   const [isAnimating, setIsAnimating] = useState(false);
   const [isNotificationFadingOut, setIsNotificationFadingOut] = useState(false);
 
-  // Store processed images with white backgrounds removed
+  // Store processed images with white backgrounds removed (keyed by image URL, so each colorway gets its own)
   const [processedImages, setProcessedImages] = useState<Record<string, string>>({});
 
-  // Per-image max-height: if bottom half > 120px, cap total at 240px
+  // Per-image max-height: if bottom half > 120px, cap total at 240px (keyed by image URL)
   const [imageMaxHeights, setImageMaxHeights] = useState<Record<string, number>>({});
 
 
@@ -177,7 +183,7 @@ const StackedCards: React.FC<StackedCardsProps> = ({
     const processImages = async () => {
       for (const item of items) {
         // Skip if already processed
-        if (processedImages[item.id]) continue;
+        if (processedImages[item.imageUrl]) continue;
 
         try {
           // Step 1: Fetch image as base64 via proxy (avoids CORS)
@@ -193,13 +199,13 @@ const StackedCards: React.FC<StackedCardsProps> = ({
 
           setProcessedImages(prev => ({
             ...prev,
-            [item.id]: processedUrl
+            [item.imageUrl]: processedUrl
           }));
         } catch (error) {
           // Fall back to original image
           setProcessedImages(prev => ({
             ...prev,
-            [item.id]: item.imageUrl
+            [item.imageUrl]: item.imageUrl
           }));
         }
       }
@@ -215,8 +221,8 @@ const StackedCards: React.FC<StackedCardsProps> = ({
     const UPPER_WIDTH_LIMIT = 140;
 
     for (const item of items) {
-      const src = processedImages[item.id];
-      if (!src || imageMaxHeights[item.id] !== undefined) continue;
+      const src = processedImages[item.imageUrl];
+      if (!src || imageMaxHeights[item.imageUrl] !== undefined) continue;
 
       const img = new Image();
       img.onload = () => {
@@ -229,7 +235,7 @@ const StackedCards: React.FC<StackedCardsProps> = ({
         canvas.height = natH;
         const ctx = canvas.getContext('2d');
         if (!ctx) {
-          setImageMaxHeights(prev => ({ ...prev, [item.id]: DEFAULT_MAX_HEIGHT }));
+          setImageMaxHeights(prev => ({ ...prev, [item.imageUrl]: DEFAULT_MAX_HEIGHT }));
           return;
         }
         ctx.drawImage(img, 0, 0);
@@ -274,7 +280,7 @@ const StackedCards: React.FC<StackedCardsProps> = ({
           maxH = Math.min(maxH, natH * (BOTTOM_WIDTH_LIMIT / bottomContentWidth));
         }
 
-        setImageMaxHeights(prev => ({ ...prev, [item.id]: maxH }));
+        setImageMaxHeights(prev => ({ ...prev, [item.imageUrl]: maxH }));
       };
       img.src = src;
     }
@@ -450,11 +456,11 @@ const StackedCards: React.FC<StackedCardsProps> = ({
             {/* Item image - Rectangle 2 (RIGHT aligned) */}
             <div className="card-item-image">
               {(() => {
-                const maxH = imageMaxHeights[item.id];
+                const maxH = imageMaxHeights[item.imageUrl];
                 const wasScaledDown = maxH !== undefined && maxH < 150;
                 return (
                   <img
-                    src={processedImages[item.id] || item.imageUrl}
+                    src={processedImages[item.imageUrl] || item.imageUrl}
                     alt={item.name}
                     className="card-image"
                     draggable={false}
@@ -487,6 +493,25 @@ const StackedCards: React.FC<StackedCardsProps> = ({
               </div>
             )}
 
+            {/* Colorway swatches - active card only */}
+            {onColorSelect && position === 0 && item.colors && item.colors.length > 1 && (
+              <div className="card-color-picker">
+                {item.colors.map((color) => (
+                  <button
+                    key={color}
+                    className={`card-color-swatch ${(item.selectedColor || item.colors![0]) === color ? 'selected' : ''}`}
+                    style={{ background: getColorSwatch(color) }}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onColorSelect(item, itemIndex, color);
+                    }}
+                    aria-label={color}
+                    title={color}
+                  />
+                ))}
+              </div>
+            )}
+
             {/* Text content - Rectangle: name & price (LEFT side, bottom) */}
             <div className="card-text-content">
               {/* Size badge above name */}
@@ -511,6 +536,7 @@ const StackedCards: React.FC<StackedCardsProps> = ({
                 </span>
               </div>
               {item.price && <p className="card-price">{item.price}</p>}
+              {item.fabric && <p className="card-fabric" title={item.fabric.reason}>{item.fabric.summary}</p>}
             </div>
 
             {/* Remove button */}
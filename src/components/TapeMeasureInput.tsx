@@ -0,0 +1,134 @@
+import { useState } from 'react'
+import { track } from '@vercel/analytics'
+import { TAPE_MEASUREMENT_KEYS, type TapeMeasurementKey, type TapeMeasurements } from '../utils/sizeIdentifier'
+import './TapeMeasureInput.css'
+
+interface TapeMeasureInputProps {
+  values: TapeMeasurements      // cm
+  unit: 'cm' | 'in'             // Unit the fields are shown and typed in
+  onChange: (values: TapeMeasurements) => void
+}
+
+// How to measure each field, with the tape's position on the figure (viewBox 0 0 100 210)
+const MEASURE_GUIDES: Record<TapeMeasurementKey, { label: string; howTo: string; tape: string }> = {
+  chest: {
+    label: 'Chest',
+    howTo: 'Around the fullest part of the chest, just under the arms. Keep the tape level across the back.',
+    tape: 'M 30 62 Q 50 68 70 62'
+  },
+  waist: {
+    label: 'Waist',
+    howTo: 'Around the natural waist, the narrowest part of the torso, usually just above the belly button. Keep a finger under the tape.',
+    tape: 'M 33 92 Q 50 97 67 92'
+  },
+  hips: {
+    label: 'Hips',
+    howTo: 'Around the fullest part of the hips and seat, standing with feet together.',
+    tape: 'M 30 114 Q 50 120 70 114'
+  },
+  inseam: {
+    label: 'Inseam',
+    howTo: 'From the crotch down the inside of the leg to the ankle bone, standing straight. The inseam of well-fitting pants works too.',
+    tape: 'M 49 126 L 45 200'
+  }
+}
+
+// Figure outline for the how-to illustration
+const FIGURE_PATH = 'M 50 8 a 11 11 0 1 1 0.1 0 M 42 30 L 58 30 L 72 40 L 82 90 L 76 92 L 68 52 L 68 80 L 72 120 L 66 202 L 54 202 L 51 128 L 49 128 L 46 202 L 34 202 L 28 120 L 32 80 L 32 52 L 24 92 L 18 90 L 28 40 Z'
+
+const CM_PER_INCH = 2.54
+
+/**
+ * Field text for a stored value (cm → the display unit, one decimal)
+ */
+function toDisplay(cm: number | undefined, unit: 'cm' | 'in'): string {
+  if (cm === undefined) return ''
+  return `${Math.round((unit === 'in' ? cm / CM_PER_INCH : cm) * 10) / 10}`
+}
+
+function TapeMeasureInput({ values, unit, onChange }: TapeMeasureInputProps) {
+  const hasValues = TAPE_MEASUREMENT_KEYS.some(key => values[key] !== undefined)
+  const [isOpen, setIsOpen] = useState(hasValues)
+  const [guideKey, setGuideKey] = useState<TapeMeasurementKey | null>(null)
+  // Typed text per field, so partial entries like "32." survive the unit conversion
+  const [drafts, setDrafts] = useState<Record<TapeMeasurementKey, string>>(() =>
+    Object.fromEntries(TAPE_MEASUREMENT_KEYS.map(key => [key, toDisplay(values[key], unit)])) as Record<TapeMeasurementKey, string>
+  )
+
+  const handleChange = (key: TapeMeasurementKey, text: string) => {
+    setDrafts(prev => ({ ...prev, [key]: text }))
+    const value = parseFloat(text)
+    const next = { ...values }
+    if (Number.isFinite(value) && value > 0) {
+      next[key] = Math.round((unit === 'in' ? value * CM_PER_INCH : value) * 100) / 100
+    } else {
+      delete next[key]
+    }
+    onChange(next)
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        className="tape-measure-open"
+        onClick={() => {
+          track('tape_measure_open')
+          setIsOpen(true)
+        }}
+      >
+        Have a tape measure? Add measurements
+      </button>
+    )
+  }
+
+  const guide = guideKey ? MEASURE_GUIDES[guideKey] : null
+
+  return (
+    <div className="tape-measure">
+      <p className="tape-measure-intro">
+        Optional. Measured values replace the estimates from height and weight.
+      </p>
+      <div className="tape-measure-fields">
+        {TAPE_MEASUREMENT_KEYS.map(key => (
+          <div key={key} className="tape-measure-field">
+            <label htmlFor={`tape-${key}`}>{MEASURE_GUIDES[key].label}</label>
+            <div className="tape-measure-input">
+              <input
+                id={`tape-${key}`}
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.5"
+                placeholder="–"
+                value={drafts[key]}
+                onChange={(e) => handleChange(key, e.target.value)}
+              />
+              <span>{unit}</span>
+            </div>
+            <button
+              className={`tape-measure-howto ${guideKey === key ? 'active' : ''}`}
+              onClick={() => {
+                if (guideKey !== key) track('tape_measure_howto', { measurement: key })
+                setGuideKey(guideKey === key ? null : key)
+              }}
+              aria-label={`How to measure ${MEASURE_GUIDES[key].label.toLowerCase()}`}
+            >
+              How?
+            </button>
+          </div>
+        ))}
+      </div>
+      {guide && (
+        <div className="tape-measure-guide">
+          <svg viewBox="0 0 100 210" className="tape-measure-figure" aria-hidden="true">
+            <path d={FIGURE_PATH} className="figure" />
+            <path d={guide.tape} className="tape" />
+          </svg>
+          <p>{guide.howTo}</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TapeMeasureInput
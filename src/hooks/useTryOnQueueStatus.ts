@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react'
+import { getTryOnScheduler, type TryOnJobStatus } from '../utils/tryOnScheduler'
+import type { FitType } from '../utils/tryOnService'
+
+type QueueStatusByFit = Record<FitType, TryOnJobStatus | null>
+
+const FITS: FitType[] = ['tight', 'regular', 'comfortable']
+
+function readStatus(itemId: string): QueueStatusByFit {
+  const scheduler = getTryOnScheduler()
+  return {
+    tight: scheduler.getStatus(itemId, 'tight'),
+    regular: scheduler.getStatus(itemId, 'regular'),
+    comfortable: scheduler.getStatus(itemId, 'comfortable')
+  }
+}
+
+/**
+ * Loading text for a fit, including queue position / ETA when known
+ */
+export function describeQueueStatus(status: TryOnJobStatus | null, isRegenerating: boolean): string {
+  const base = isRegenerating ? 'Regenerating the fit...' : 'Generating try-on...'
+  if (!status) return base
+
+  const seconds = Math.max(1, Math.round(status.etaMs / 1000))
+  if (status.state === 'running') return `${base} ~${seconds}s`
+  return status.position === 0
+    ? `Up next · ~${seconds}s`
+    : `In line (${status.position} ahead) · ~${seconds}s`
+}
+
+/**
+ * Queue position and ETA for each fit of an item
+ * Updates on scheduler changes, and once a second while a job is pending so the ETA counts down
+ */
+export function useTryOnQueueStatus(itemId: string): QueueStatusByFit {
+  const [status, setStatus] = useState<QueueStatusByFit>(() => readStatus(itemId))
+
+  useEffect(() => {
+    const refresh = () => setStatus(readStatus(itemId))
+    refresh()
+
+    const unsubscribe = getTryOnScheduler().subscribe(refresh)
+    const interval = setInterval(() => {
+      const scheduler = getTryOnScheduler()
+      if (FITS.some(fit => scheduler.getStatus(itemId, fit))) refresh()
+    }, 1000)
+
+    return () => {
+      unsubscribe()
+      clearInterval(interval)
+    }
+  }, [itemId])
+
+  return status
+}
@@ -1,48 +1,30 @@
 import type { ItemData } from '../App'
 import { identifyBrand } from './brandIdentifier'
 import { collectSizeGuide } from './sizeCollector'
+import { compareSizes, normalizeSize, parseWaistInseamGrid } from './sizeSystems'
+import { findColorVariants, findItemColor } from './colorVariants'
+import { parseFiberContent } from './fiberContent'
+
+// Gallery image URLs that look like a rear shot (e.g. ".../12345_back.jpg", "...-rear-...", ".../12345b.jpg")
+const BACK_IMAGE_PATTERN = /(^|[^a-z])(back|rear|reverse)([^a-z]|$)|[_-]b\.(jpe?g|png|webp)(\?|$)/i
+
+/**
+ * Pick the rear product shot from the retailer gallery, if there is one
+ */
+function findBackImage(item: ItemData): string | undefined {
+  return item.additionalImages?.find(url => url !== item.imageUrl && BACK_IMAGE_PATTERN.test(url.split('/').pop() || ''))
+}
 
 /**
- * Analyze item: normalize sizes, identify brand, and collect size guide.
+ * Analyze item: normalize sizes, identify brand, collect size guide, find the back image,
+ * collect color variants and parse the fiber content.
  * Pure function — no component state dependency.
  */
 export async function analyzeItem(rawItem: ItemData): Promise<ItemData> {
   // Normalize availableSizes to abbreviations (S, M, L, XL, 2XL, etc.)
   if (rawItem.availableSizes) {
-    const sizeMap: Record<string, string> = {
-      'x-small': 'XS', 'xsmall': 'XS', 'extra small': 'XS', 'x small': 'XS',
-      'small': 'S', 'sm': 'S',
-      'medium': 'M', 'med': 'M',
-      'large': 'L', 'lg': 'L',
-      'x-large': 'XL', 'xlarge': 'XL', 'extra large': 'XL', 'x large': 'XL',
-      'xx-large': '2XL', 'xxlarge': '2XL', 'xxl': '2XL', 'xx large': '2XL', '2x': '2XL',
-      'xxx-large': '3XL', 'xxxlarge': '3XL', 'xxxl': '3XL', '3x': '3XL',
-      'xxxx-large': '4XL', 'xxxxlarge': '4XL', 'xxxxl': '4XL', '4x': '4XL',
-      'youth small': 'YS', 'youth s': 'YS',
-      'youth medium': 'YM', 'youth m': 'YM',
-      'youth large': 'YL', 'youth l': 'YL',
-      'youth x-large': 'YXL', 'youth xl': 'YXL',
-    }
-    const normalized = rawItem.availableSizes.map(s =>
-      sizeMap[s.toLowerCase().trim()] || s.toUpperCase().trim()
-    )
-
     // Sort by canonical size order so formatSizeRange displays correct range
-    const canonicalOrder = [
-      '0', '2', '4', '6', '8', '10', '12', '14', '16', '18', '20',
-      'XXXS', 'XXS', 'XS', 'S', 'M', 'L', 'XL', '2XL', '3XL', '4XL',
-      'YS', 'YM', 'YL', 'YXL',
-    ]
-    normalized.sort((a, b) => {
-      const idxA = canonicalOrder.indexOf(a)
-      const idxB = canonicalOrder.indexOf(b)
-      // Unknown sizes go to the end, preserving relative order
-      if (idxA === -1 && idxB === -1) return 0
-      if (idxA === -1) return 1
-      if (idxB === -1) return -1
-      return idxA - idxB
-    })
-
+    const normalized = rawItem.availableSizes.map(normalizeSize).sort(compareSizes)
     rawItem = { ...rawItem, availableSizes: normalized }
   }
 
@@ -73,11 +55,11 @@ export async function analyzeItem(rawItem: ItemData): Promise<ItemData> {
   }
   // Source 3: fall through to rawItem.gender (backend's commercecategory-based value)
 
-  // Step 2b: Infer type from item name if backend defaulted to 'top'
+  // Step 2b: Infer type from item name (or waist × inseam sizes) if backend defaulted to 'top'
   let type = rawItem.type
   if (!type || type === 'top') {
-    const bottomKeywords = /\b(pant|pants|jogger|joggers|shorts|legging|leggings|tight|tights)\b/
-    if (bottomKeywords.test(nameLower)) {
+    const bottomKeywords = /\b(pant|pants|jogger|joggers|shorts|legging|leggings|tight|tights|jeans|chinos)\b/
+    if (bottomKeywords.test(nameLower) || parseWaistInseamGrid(rawItem.availableSizes || [])) {
       type = 'bottom'
     }
   }
@@ -86,12 +68,28 @@ export async function analyzeItem(rawItem: ItemData): Promise<ItemData> {
   const itemWithBrand = { ...rawItem, brand, gender, type }
   const sizeGuide = collectSizeGuide(itemWithBrand)
 
-  // Return item with brand, gender, and size guide
+  // Step 4: Rear product shot for back-view try-ons
+  const backImageUrl = rawItem.backImageUrl || findBackImage(rawItem)
+
+  // Step 5: Main color (backend often sends "N/A") and the other colorways
+  const color = findItemColor(rawItem) || rawItem.color
+  const colorVariants = findColorVariants({ ...rawItem, color, backImageUrl })
+
+  // Step 6: Fabric composition, from the full description or else the short one
+  const fiberContent = [rawItem.fullDescription, rawItem.shortDescription]
+    .map(text => parseFiberContent(text || ''))
+    .find(fibers => fibers.length > 0)
+
+  // Return item with brand, gender, size guide, back image, colors and fibers
   return {
     ...rawItem,
     brand,
     gender,
     type,
-    sizeGuide: sizeGuide || undefined
+    sizeGuide: sizeGuide || undefined,
+    backImageUrl,
+    color,
+    colorVariants,
+    fiberContent
   }
 }
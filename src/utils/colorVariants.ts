@@ -0,0 +1,145 @@
+/**
+ * Color Variants
+ * Colorways an item is sold in, and the product image for each
+ *
+ * The backend rarely fills `color` (usually "N/A"), so variants are gathered from:
+ *   1. `colorVariants` on the raw item, when the backend sends them
+ *   2. gallery images whose file name carries a color (e.g. ".../29042_navy_01.jpg")
+ *   3. the item's own color, or the first color named in its title or description,
+ *      paired with the main product image
+ * Team and brand names that contain a color ("Duke Blue Devils") are ignored in titles and
+ * descriptions. Only colorways with their own product image are offered: the try-on prompt
+ * copies the garment's color from the image, so a variant shown on the main image would
+ * come out in the main image's color. A shopper's pick is stored as `selectedColor` on the
+ * item; applyColorVariant swaps in that variant's color and image before try-on.
+ */
+
+import type { ItemData } from '../App'
+
+export interface ColorVariant {
+  name: string       // Display name, e.g. "Navy"
+  imageUrl?: string  // Product image in this color; variants without one are not offered
+}
+
+// Apparel color names with their swatch color (multi-word names first so they match before "blue")
+const COLOR_SWATCHES: Record<string, string> = {
+  'heather gray': '#9a9a9a',
+  'heather grey': '#9a9a9a',
+  'royal blue': '#2a52be',
+  'light blue': '#9cc3e6',
+  'duke blue': '#012169',
+  'forest green': '#228b22',
+  'dark green': '#1e4d2b',
+  black: '#111111',
+  white: '#ffffff',
+  navy: '#1f2a44',
+  blue: '#2f6db5',
+  purple: '#5b2a86',
+  gray: '#808080',
+  grey: '#808080',
+  charcoal: '#36454f',
+  red: '#c8102e',
+  maroon: '#800000',
+  green: '#2e7d32',
+  olive: '#6b6b2a',
+  pink: '#f4a6c0',
+  orange: '#f28c28',
+  yellow: '#f2d13a',
+  brown: '#6f4e37',
+  tan: '#d2b48c',
+  khaki: '#c3b091',
+  cream: '#f3ead3',
+  oatmeal: '#e2d7c1'
+}
+
+// Team and brand names that contain a color word, dropped from titles and descriptions
+const NAMES_WITH_COLORS = ['blue devils', 'duke blue']
+
+// Backend placeholder for "no color"
+const NO_COLOR = 'N/A'
+
+const COLOR_NAMES = Object.keys(COLOR_SWATCHES).sort((a, b) => b.length - a.length)
+
+function titleCase(name: string): string {
+  return name.replace(/\b\w/g, c => c.toUpperCase())
+}
+
+/**
+ * First known color named in a piece of text (file name, title, description)
+ */
+function findColorName(text: string): string | null {
+  const words = ` ${text.toLowerCase().replace(/[^a-z]+/g, ' ')} `
+  const match = COLOR_NAMES.find(name => words.includes(` ${name} `))
+  return match ? titleCase(match) : null
+}
+
+/**
+ * Text with team and brand names removed, so their color words don't read as the item's color
+ */
+function withoutColorNames(text: string): string {
+  let plain = ` ${text.toLowerCase().replace(/[^a-z]+/g, ' ')} `
+  for (const name of NAMES_WITH_COLORS) plain = plain.split(` ${name} `).join(' ')
+  return plain
+}
+
+/**
+ * CSS color for a variant swatch (neutral gray for unknown names)
+ */
+export function getColorSwatch(name: string): string {
+  return COLOR_SWATCHES[name.toLowerCase().trim()] || '#c8c8c8'
+}
+
+/**
+ * Color of the main product image: the backend's value, else the first color the
+ * title or description names
+ */
+export function findItemColor(item: ItemData): string | null {
+  if (item.color && item.color !== NO_COLOR) return item.color
+  return findColorName(withoutColorNames(item.name)) || findColorName(withoutColorNames(item.shortDescription || ''))
+}
+
+/**
+ * Collect an item's colorways that have a product image, the main image's color first
+ */
+export function findColorVariants(item: ItemData): ColorVariant[] {
+  const variants: ColorVariant[] = []
+  const add = (variant: ColorVariant) => {
+    const existing = variants.find(v => v.name.toLowerCase() === variant.name.toLowerCase())
+    if (!existing) variants.push(variant)
+    else if (!existing.imageUrl) existing.imageUrl = variant.imageUrl
+  }
+
+  const mainColor = findItemColor(item)
+  if (mainColor) add({ name: mainColor, imageUrl: item.imageUrl })
+
+  for (const variant of item.colorVariants || []) {
+    if (variant.name && variant.name !== NO_COLOR) add(variant)
+  }
+
+  for (const url of item.additionalImages || []) {
+    if (url === item.imageUrl || url === item.backImageUrl) continue
+    const name = findColorName(url.split('/').pop() || '')
+    if (name) add({ name, imageUrl: url })
+  }
+
+  return variants.filter(v => v.imageUrl)
+}
+
+/**
+ * Item as it should be tried on: the selected colorway's color and image
+ * A variant without its own image (saved before those were filtered out) is ignored.
+ * The rear shot only belongs to the main image's colorway, so other colors drop it.
+ */
+export function applyColorVariant(item: ItemData): ItemData {
+  const variant = item.selectedColor
+    ? item.colorVariants?.find(v => v.name === item.selectedColor)
+    : undefined
+  if (!variant?.imageUrl) return item
+
+  return {
+    ...item,
+    color: variant.name,
+    imageUrl: variant.imageUrl,
+    backImageUrl: variant.imageUrl === item.imageUrl ? item.backImageUrl : undefined
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Face Preservation
+ * Blends the original face and head back into a generated try-on image
+ *
+ * The generated image is aligned to the cropped photo first: a small search over scale
+ * and offset on downsampled grayscale copies of the upper frame (head, hair, background)
+ * finds the best match. Only when the residual difference is within tolerance is the
+ * photo's head drawn over the result through a feathered ellipse. Where the browser has a
+ * face detector (Shape Detection API, Chromium behind a flag) the ellipse is placed around
+ * the detected face, and the blend is skipped when it finds none; elsewhere a fixed head
+ * region of the aligned frame is used. Otherwise the generated image is left as it is.
+ */
+
+// Width of the grayscale copies used for alignment (height follows the aspect ratio)
+const ALIGN_WIDTH = 64
+
+// Region compared during alignment as fractions of the frame (x0, y0, x1, y1)
+const ALIGN_REGION = [0.1, 0, 0.9, 0.32] as const
+
+// Search range: scale factors and maximum offset as a fraction of the frame
+const ALIGN_SCALES = [0.95, 0.975, 1, 1.025, 1.05]
+const MAX_OFFSET_FRACTION = 0.05
+
+// Largest mean grayscale difference (0-1) at the best alignment that still counts as aligned
+const ALIGN_TOLERANCE = 0.07
+
+// Head ellipse in the photo as fractions of the frame (center x, center y, radius x, radius y),
+// used when no face detector is available
+const HEAD_ELLIPSE = [0.5, 0.15, 0.16, 0.13] as const
+
+// Head ellipse around a detected face box: radii as multiples of the box's width and height,
+// center raised by a share of the box height to take in the hair
+const HEAD_RADIUS_X = 0.85
+const HEAD_RADIUS_Y = 0.95
+const HEAD_LIFT = 0.12
+
+// Share of the ellipse radius used for the soft edge
+const FEATHER = 0.35
+
+export interface FacePreservationResult {
+  imageDataUrl: string | null  // Blended image, or null when the images did not align or the detector found no face
+  headSource: 'detected_face' | 'frame' | null  // How the head ellipse was placed (null when not blended)
+  alignmentError: number       // Mean grayscale difference (0-1) at the best alignment
+  scale: number
+  offsetX: number              // Fraction of the frame width
+  offsetY: number              // Fraction of the frame height
+}
+
+// Face box in pixels of the image passed to detect()
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly
+}
+
+// Shape Detection API face detector (Chromium only, not in the DOM typings)
+type FaceDetectorConstructor = new (options?: { maxDetectedFaces?: number; fastMode?: boolean }) => {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error('Could not load image'))
+    img.src = src
+  })
+}
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Failed to get canvas context')
+  return [canvas, ctx]
+}
+
+/**
+ * Center-crop the photo to the target aspect ratio and scale it to the target size
+ * (the same crop the try-on service applies before sending the photo)
+ */
+function fitPhotoToFrame(photo: HTMLImageElement, width: number, height: number): HTMLCanvasElement {
+  const targetAspect = width / height
+  let cropWidth = photo.width
+  let cropHeight = photo.height
+  if (photo.width / photo.height > targetAspect) {
+    cropWidth = photo.height * targetAspect
+  } else {
+    cropHeight = photo.width / targetAspect
+  }
+
+  const [canvas, ctx] = createCanvas(width, height)
+  ctx.drawImage(photo, (photo.width - cropWidth) / 2, (photo.height - cropHeight) / 2, cropWidth, cropHeight, 0, 0, width, height)
+  return canvas
+}
+
+/**
+ * Downsample to grayscale (0-255 per pixel)
+ */
+function grayscale(source: CanvasImageSource, width: number, height: number): Float32Array {
+  const [, ctx] = createCanvas(width, height)
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(source, 0, 0, width, height)
+  const { data } = ctx.getImageData(0, 0, width, height)
+  const gray = new Float32Array(width * height)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114
+  }
+  return gray
+}
+
+/**
+ * Largest face in the image (null when none is found), or undefined when the browser has no
+ * face detector or it failed
+ */
+async function detectFace(image: HTMLCanvasElement): Promise<DOMRectReadOnly | null | undefined> {
+  const FaceDetector = (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector
+  if (!FaceDetector) return undefined
+  try {
+    const faces = await new FaceDetector({ maxDetectedFaces: 3, fastMode: true }).detect(image)
+    let largest: DOMRectReadOnly | null = null
+    for (const { boundingBox } of faces) {
+      if (!largest || boundingBox.width * boundingBox.height > largest.width * largest.height) largest = boundingBox
+    }
+    return largest
+  } catch (err) {
+    console.warn('[FacePreservation] Face detection failed:', err)
+    return undefined
+  }
+}
+
+/**
+ * Mean absolute difference (0-1) over ALIGN_REGION between the generated image and
+ * the photo scaled by `scale` about the frame center and shifted by (dx, dy) pixels
+ */
+function alignmentError(
+  generated: Float32Array,
+  photo: Float32Array,
+  width: number,
+  height: number,
+  scale: number,
+  dx: number,
+  dy: number
+): number {
+  const [x0, y0, x1, y1] = ALIGN_REGION
+  const cx = width / 2
+  const cy = height / 2
+  let total = 0
+  let count = 0
+  for (let y = Math.floor(y0 * height); y < Math.ceil(y1 * height); y++) {
+    for (let x = Math.floor(x0 * width); x < Math.ceil(x1 * width); x++) {
+      const sx = Math.round((x - cx - dx) / scale + cx)
+      const sy = Math.round((y - cy - dy) / scale + cy)
+      if (sx < 0 || sx >= width || sy < 0 || sy >= height) continue
+      total += Math.abs(generated[y * width + x] - photo[sy * width + sx])
+      count++
+    }
+  }
+  return count === 0 ? 1 : total / count / 255
+}
+
+/**
+ * Blend the photo's face and head back into a generated try-on image
+ *
+ * @param generated - Generated try-on image (data URL)
+ * @param photo - Cropped photo the image was generated from (data URL)
+ * @returns The blended image when the two align within ALIGN_TOLERANCE (and the detector, if any, finds a face), plus the alignment found
+ */
+export async function preserveFace(generated: string, photo: string): Promise<FacePreservationResult> {
+  const [generatedImg, photoImg] = await Promise.all([loadImage(generated), loadImage(photo)])
+  const width = generatedImg.width
+  const height = generatedImg.height
+  const framedPhoto = fitPhotoToFrame(photoImg, width, height)
+
+  // Coarse search on small grayscale copies
+  const alignWidth = ALIGN_WIDTH
+  const alignHeight = Math.max(1, Math.round(ALIGN_WIDTH * height / width))
+  const generatedGray = grayscale(generatedImg, alignWidth, alignHeight)
+  const photoGray = grayscale(framedPhoto, alignWidth, alignHeight)
+  const maxShiftX = Math.round(alignWidth * MAX_OFFSET_FRACTION)
+  const maxShiftY = Math.round(alignHeight * MAX_OFFSET_FRACTION)
+
+  let best = { error: Infinity, scale: 1, dx: 0, dy: 0 }
+  for (const scale of ALIGN_SCALES) {
+    for (let dy = -maxShiftY; dy <= maxShiftY; dy++) {
+      for (let dx = -maxShiftX; dx <= maxShiftX; dx++) {
+        const error = alignmentError(generatedGray, photoGray, alignWidth, alignHeight, scale, dx, dy)
+        if (error < best.error) best = { error, scale, dx, dy }
+      }
+    }
+  }
+
+  const alignment = {
+    alignmentError: Math.round(best.error * 1000) / 1000,
+    scale: best.scale,
+    offsetX: best.dx / alignWidth,
+    offsetY: best.dy / alignHeight
+  }
+  if (best.error > ALIGN_TOLERANCE) {
+    return { imageDataUrl: null, headSource: null, ...alignment }
+  }
+
+  // Head ellipse in photo pixels: around the detected face, or the fixed frame region without a detector
+  const face = await detectFace(framedPhoto)
+  if (face === null) {
+    return { imageDataUrl: null, headSource: null, ...alignment }
+  }
+  const head = face
+    ? {
+        x: face.x + face.width / 2,
+        y: face.y + face.height / 2 - face.height * HEAD_LIFT,
+        radiusX: face.width * HEAD_RADIUS_X,
+        radiusY: face.height * HEAD_RADIUS_Y
+      }
+    : {
+        x: HEAD_ELLIPSE[0] * width,
+        y: HEAD_ELLIPSE[1] * height,
+        radiusX: HEAD_ELLIPSE[2] * width,
+        radiusY: HEAD_ELLIPSE[3] * height
+      }
+
+  // Photo mapped into the generated frame: scaled about the center, then shifted
+  const offsetX = alignment.offsetX * width
+  const offsetY = alignment.offsetY * height
+  const [headCanvas, headCtx] = createCanvas(width, height)
+  headCtx.setTransform(best.scale, 0, 0, best.scale, (width / 2) * (1 - best.scale) + offsetX, (height / 2) * (1 - best.scale) + offsetY)
+  headCtx.drawImage(framedPhoto, 0, 0)
+  headCtx.setTransform(1, 0, 0, 1, 0, 0)
+
+  // Feathered ellipse around the head (same mapping as the photo), used to cut it out
+  const centerX = (head.x - width / 2) * best.scale + width / 2 + offsetX
+  const centerY = (head.y - height / 2) * best.scale + height / 2 + offsetY
+  const [maskCanvas, maskCtx] = createCanvas(width, height)
+  const gradient = maskCtx.createRadialGradient(0, 0, 0, 0, 0, 1)
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 1)')
+  gradient.addColorStop(1 - FEATHER, 'rgba(0, 0, 0, 1)')
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0)')
+  maskCtx.translate(centerX, centerY)
+  maskCtx.scale(head.radiusX * best.scale, head.radiusY * best.scale)
+  maskCtx.fillStyle = gradient
+  maskCtx.fillRect(-1, -1, 2, 2)
+
+  headCtx.globalCompositeOperation = 'destination-in'
+  headCtx.drawImage(maskCanvas, 0, 0)
+
+  const [canvas, ctx] = createCanvas(width, height)
+  ctx.drawImage(generatedImg, 0, 0)
+  ctx.drawImage(headCanvas, 0, 0)
+
+  return { imageDataUrl: canvas.toDataURL('image/png'), headSource: face ? 'detected_face' : 'frame', ...alignment }
+}
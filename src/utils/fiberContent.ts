@@ -0,0 +1,170 @@
+/**
+ * Fiber Content
+ * Fabric composition parsed from product descriptions, and how it shifts the size match
+ *
+ * Descriptions usually state the blend ("52% cotton, 48% polyester"). Only the first full
+ * composition is read, so trim and lining blends listed after it are ignored. Stretch fibers
+ * (spandex, elastane) give the garment extra room past the chart's largest girth; pure
+ * cotton is expected to shrink in the wash, so the chart is scaled down and sizes nudge up.
+ */
+
+import type { SizeEntry } from './sizeCollector'
+
+// Share of one fiber in the fabric
+export interface FiberShare {
+  fiber: string    // Canonical fiber name, e.g. "spandex" for Lycra
+  percent: number
+}
+
+// Size-match adjustment for the fabric
+export interface FabricFitAdjustment {
+  effect: 'stretch' | 'shrink'
+  stretchCm: number   // Body girth the fabric stretches to past each range's max
+  shrinkage: number   // Share the garment is expected to shrink in the wash
+  summary: string     // Short text for the item card
+  reason: string      // Sentence for the recommendation notes
+}
+
+// Fiber names as they appear in descriptions → canonical name
+const FIBER_ALIASES: Record<string, string> = {
+  cotton: 'cotton',
+  polyester: 'polyester',
+  spandex: 'spandex',
+  elastane: 'elastane',
+  lycra: 'spandex',
+  nylon: 'nylon',
+  polyamide: 'nylon',
+  rayon: 'rayon',
+  viscose: 'rayon',
+  modal: 'modal',
+  lyocell: 'lyocell',
+  tencel: 'lyocell',
+  wool: 'wool',
+  merino: 'wool',
+  cashmere: 'cashmere',
+  silk: 'silk',
+  linen: 'linen',
+  acrylic: 'acrylic',
+  bamboo: 'bamboo'
+}
+
+// "52% cotton", "5% Lycra® spandex", "60% recycled polyester" (up to two words before the fiber)
+const FIBER_PATTERN = new RegExp(
+  `(\\d{1,3}(?:\\.\\d+)?)\\s*%\\s*(?:[a-z®™-]+\\s+){0,2}?(${Object.keys(FIBER_ALIASES).join('|')})\\b`,
+  'gi'
+)
+
+// Fibers that stretch, and the extra girth (cm) each percent gives, capped
+const STRETCH_FIBERS = ['spandex', 'elastane']
+const MIN_STRETCH_PERCENT = 2
+const STRETCH_CM_PER_PERCENT = 0.5
+const MAX_STRETCH_CM = 4
+
+// Expected wash shrinkage of 100% cotton
+const COTTON_SHRINKAGE = 0.03
+
+// Half-width of the single-value match in sizeIdentifier (±2cm), kept when stretch widens it
+const VALUE_TOLERANCE_CM = 2
+
+// Measurements that describe the wearer rather than the garment
+const WEARER_KEYS = ['height']
+
+// Garment lengths, which stretch doesn't lengthen
+const LENGTH_KEYS = ['length', 'body_length', 'inseam']
+
+/**
+ * Fiber composition from description text, largest share first (empty when none is stated)
+ */
+export function parseFiberContent(text: string): FiberShare[] {
+  const plain = text.replace(/<[^>]+>/g, ' ')
+  const shares = new Map<string, number>()
+  let total = 0
+
+  for (const match of plain.matchAll(FIBER_PATTERN)) {
+    // Stop after the first full blend (later ones describe trim or lining)
+    if (total >= 100) break
+    const percent = Number(match[1])
+    if (percent <= 0 || total + percent > 100) continue
+    const fiber = FIBER_ALIASES[match[2].toLowerCase()]
+    shares.set(fiber, (shares.get(fiber) || 0) + percent)
+    total += percent
+  }
+
+  return [...shares.entries()]
+    .map(([fiber, percent]) => ({ fiber, percent }))
+    .sort((a, b) => b.percent - a.percent)
+}
+
+/**
+ * How the fabric shifts the size match, or null when it doesn't
+ */
+export function getFabricFitAdjustment(fibers: FiberShare[] | undefined): FabricFitAdjustment | null {
+  if (!fibers || fibers.length === 0) return null
+
+  const stretch = fibers.filter(f => STRETCH_FIBERS.includes(f.fiber))
+  const stretchPercent = stretch.reduce((sum, f) => sum + f.percent, 0)
+  if (stretchPercent >= MIN_STRETCH_PERCENT) {
+    const stretchCm = Math.min(stretchPercent * STRETCH_CM_PER_PERCENT, MAX_STRETCH_CM)
+    const name = stretch[0].fiber
+    return {
+      effect: 'stretch',
+      stretchCm,
+      shrinkage: 0,
+      summary: `${stretchPercent}% ${name}: extra give`,
+      reason: `The ${stretchPercent}% ${name} gives about ${stretchCm}cm of stretch, so a snug size still fits.`
+    }
+  }
+
+  if (fibers.length === 1 && fibers[0].fiber === 'cotton' && fibers[0].percent === 100) {
+    return {
+      effect: 'shrink',
+      stretchCm: 0,
+      shrinkage: COTTON_SHRINKAGE,
+      summary: '100% cotton: may shrink',
+      reason: `100% cotton can shrink about ${COTTON_SHRINKAGE * 100}% in the wash, so sizes lean up.`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Size guide entry as the fabric will wear: ranges scaled down for shrinkage, girth ranges
+ * extended past their max for stretch
+ */
+export function applyFabricAdjustment(entry: SizeEntry, adjustment: FabricFitAdjustment | null | undefined): SizeEntry {
+  if (!adjustment) return entry
+
+  const scale = 1 - adjustment.shrinkage
+  const measurements: SizeEntry['measurements'] = {}
+  for (const [key, raw] of Object.entries(entry.measurements)) {
+    // Some guides list a bare number instead of a measurement object
+    const measurement = typeof raw === 'number' ? { value: raw } : raw
+    if (WEARER_KEYS.includes(key)) {
+      measurements[key] = measurement
+      continue
+    }
+
+    const shrunk = {
+      min: measurement.min !== undefined ? measurement.min * scale : undefined,
+      max: measurement.max !== undefined ? measurement.max * scale : undefined,
+      value: measurement.value !== undefined ? measurement.value * scale : undefined
+    }
+    if (adjustment.stretchCm > 0 && !LENGTH_KEYS.includes(key)) {
+      if (shrunk.min !== undefined && shrunk.max !== undefined) {
+        shrunk.max += adjustment.stretchCm
+      } else if (shrunk.value !== undefined) {
+        shrunk.min = shrunk.value - VALUE_TOLERANCE_CM
+        shrunk.max = shrunk.value + VALUE_TOLERANCE_CM + adjustment.stretchCm
+        shrunk.value = undefined
+      }
+    }
+    measurements[key] = Object.fromEntries(
+      Object.entries(shrunk)
+        .filter(([, value]) => value !== undefined)
+        .map(([k, value]) => [k, Math.round(value! * 10) / 10])
+    )
+  }
+
+  return { ...entry, measurements }
+}
@@ -0,0 +1,245 @@
+/**
+ * Fit Analyzer
+ * Per-item size analysis: estimates body measurements for the item's size guide,
+ * recommends a size per fit type, and builds the fit sentence and clothing info for the try-on prompt
+ *
+ * Dimensions the shopper tape-measured replace the height/weight estimates, both for the
+ * size match and for the fit sentence; a reference garment (a size the person wears in
+ * another brand) is blended into the estimates it covers.
+ */
+
+import type { ItemData, UserData } from '../App'
+import type { AgeRange, BodyComposition, PersonAnalysis } from './personAnalyzer'
+import type { SizeRecommendation, TapeMeasurements } from './sizeIdentifier'
+import { calculateDimension, getMeasuredDimension, identifySize } from './sizeIdentifier'
+import { convertSizeForDisplay, isBottomType } from './sizeCollector'
+import { getEstimateError } from './sizeProbability'
+import { blendWithReference, getReferenceBody, type ReferenceBody } from './referenceGarment'
+import { getFabricFitAdjustment } from './fiberContent'
+import { describeFit } from './fitDescriber'
+import type { ClothingInfo } from './tryOnService'
+
+type FitType = 'tight' | 'regular' | 'comfortable'
+
+// Estimated body measurement
+export interface CalculatedMeasurement {
+  name: string
+  value: number
+  measured?: boolean  // Entered from a tape measure rather than estimated
+}
+
+// Size recommendation and the body measurements it was based on
+export interface ItemFitAnalysis {
+  sizeRec: SizeRecommendation
+  measurements: CalculatedMeasurement[]
+}
+
+// Body inputs the analysis reads from UserData
+export type FitAnalysisInput = Pick<UserData, 'height' | 'heightUnit' | 'heightInches' | 'weight' | 'weightUnit' | 'personAnalysis'> & Partial<Pick<UserData, 'growthAllowance' | 'tapeMeasurements' | 'referenceGarment'>>
+
+// Labels for body measurements
+export const MEASUREMENT_LABELS: Record<string, string> = {
+  'chest': 'Chest',
+  'waist': 'Waist',
+  'hips': 'Hips',
+  'length': 'Body Length',
+  'body_length': 'Body Length',
+  'shoulders': 'Shoulders',
+  'inseam': 'Inseam',
+  'thigh': 'Thigh',
+  'height': 'Height'
+}
+
+// Standard order for measurements display
+export const MEASUREMENT_ORDER = ['height', 'chest', 'waist', 'hips', 'body_length', 'shoulders', 'inseam', 'thigh']
+
+// Used until person analysis has finished
+const DEFAULT_PERSON_ANALYSIS: PersonAnalysis = {
+  gender: 'unknown',
+  age_range: 'adult',
+  body_composition: 'average',
+  shirt_tucked: false,
+  confidence: 'low',
+  proportions: {}
+}
+
+function calculateMeasurements(
+  heightCm: number,
+  weightKg: number,
+  measurementKeys: string[],
+  gender: 'male' | 'female' | 'unknown' = 'unknown',
+  bodyComposition: BodyComposition = 'average',
+  ageRange: AgeRange = 'adult',
+  tapeMeasurements: TapeMeasurements = {},
+  reference: ReferenceBody | null = null
+): CalculatedMeasurement[] {
+  if (measurementKeys.length === 0) return []
+
+  const sortedKeys = [...measurementKeys].sort((a, b) => {
+    const aNorm = a.toLowerCase().replace(/\s+/g, '_')
+    const bNorm = b.toLowerCase().replace(/\s+/g, '_')
+    const aIndex = MEASUREMENT_ORDER.indexOf(aNorm)
+    const bIndex = MEASUREMENT_ORDER.indexOf(bNorm)
+    if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex
+    if (aIndex !== -1) return -1
+    if (bIndex !== -1) return 1
+    return 0
+  })
+
+  const measurements: CalculatedMeasurement[] = []
+
+  for (const key of sortedKeys) {
+    const normalizedKey = key.toLowerCase().replace(/\s+/g, '_')
+    const label = MEASUREMENT_LABELS[normalizedKey]
+    if (!label) continue
+
+    const measured = getMeasuredDimension(tapeMeasurements, normalizedKey)
+    let value = measured ?? calculateDimension(heightCm, weightKg, normalizedKey, gender, bodyComposition, ageRange)
+    if (value === null) continue
+    const range = reference?.[normalizedKey]
+    if (measured === undefined && range) {
+      value = blendWithReference(value, getEstimateError(normalizedKey, bodyComposition, gender !== 'unknown'), range).value
+    }
+
+    measurements.push({
+      name: label,
+      value: Math.round(value * 10) / 10,
+      ...(measured !== undefined && { measured: true })
+    })
+  }
+
+  return measurements
+}
+
+/**
+ * Height in cm and weight in kg from the user's entries (defaults 170cm / 70kg)
+ */
+export function getMetricBody(input: FitAnalysisInput): { heightCm: number; weightKg: number } {
+  let heightCm = input.height || 170
+  if (input.heightUnit === 'ft' && input.height) {
+    const feet = input.height
+    const inches = input.heightInches || 0
+    heightCm = (feet * 12 + inches) * 2.54
+  }
+
+  let weightKg = input.weight || 70
+  if (input.weightUnit === 'lb' && input.weight) {
+    weightKg = input.weight * 0.453592
+  }
+
+  return { heightCm, weightKg }
+}
+
+/**
+ * Estimate body measurements for the item's size guide and recommend a size per fit
+ */
+export function analyzeItemFit(input: FitAnalysisInput, item: ItemData | null | undefined): ItemFitAnalysis {
+  const { heightCm, weightKg } = getMetricBody(input)
+  const analysis = input.personAnalysis || DEFAULT_PERSON_ANALYSIS
+  const reference = getReferenceBody(input.referenceGarment)
+
+  // Get measurement keys from size guide
+  const sizeGuide = item?.sizeGuide
+  const measurementKeys = sizeGuide?.cm?.[0]?.measurements
+    ? Object.keys(sizeGuide.cm[0].measurements)
+    : []
+
+  const measurements = calculateMeasurements(
+    heightCm,
+    weightKg,
+    measurementKeys,
+    analysis.gender,
+    analysis.body_composition,
+    analysis.age_range,
+    input.tapeMeasurements,
+    reference
+  )
+
+  const sizeRec = identifySize(
+    {
+      height: heightCm,
+      weight: weightKg,
+      gender: analysis.gender === 'unknown' ? 'unknown' : analysis.gender,
+      bodyComposition: analysis.body_composition,
+      ageRange: analysis.age_range,
+      growthAllowance: input.growthAllowance,
+      measured: input.tapeMeasurements,
+      reference: reference || undefined
+    },
+    item?.sizeGuide || null,
+    (item?.gender as 'men' | 'women' | 'unisex') || 'unisex',
+    item?.availableSizes || [],
+    getFabricFitAdjustment(item?.fiberContent)
+  )
+
+  return { sizeRec, measurements }
+}
+
+/**
+ * Personalized fit sentence for a fit type
+ * When out of range, extrapolate from the nearest available size with amplified intensity
+ */
+export function getFitSentence(
+  item: ItemData | null | undefined,
+  sizeRec: Pick<SizeRecommendation, FitType> | null,
+  measurements: CalculatedMeasurement[],
+  fit: FitType
+): string | undefined {
+  const sizeGuide = item?.sizeGuide
+  if (!sizeGuide || !sizeRec || measurements.length === 0) return undefined
+
+  const category = isBottomType(item?.type || '') ? 'bottoms' as const : 'tops' as const
+  const itemType = item?.type || ''
+  const itemName = item?.name || ''
+  const recSize = sizeRec[fit]
+
+  if (recSize) {
+    // Normal case: size exists, compute fit directly
+    const sizeEntry = sizeGuide.cm.find(
+      s => s.label.toLowerCase() === recSize.toLowerCase()
+    )
+    if (!sizeEntry) return undefined
+    return describeFit(measurements, sizeEntry, fit, 0, category, itemType, itemName)
+  }
+
+  // Out of range: find nearest available size and extrapolate
+  const fallbackOrder: Record<FitType, { fits: FitType[]; shift: number }> = {
+    tight:       { fits: ['regular', 'comfortable'], shift: +1 },
+    regular:     { fits: ['tight', 'comfortable'],   shift: 0 },
+    comfortable: { fits: ['regular', 'tight'],       shift: -1 },
+  }
+
+  const { fits: fallbackFits, shift } = fallbackOrder[fit]
+  for (const fallbackFit of fallbackFits) {
+    const fallbackSize = sizeRec[fallbackFit]
+    if (!fallbackSize) continue
+    const sizeEntry = sizeGuide.cm.find(
+      s => s.label.toLowerCase() === fallbackSize.toLowerCase()
+    )
+    if (!sizeEntry) continue
+    return describeFit(measurements, sizeEntry, fit, shift, category, itemType, itemName)
+  }
+
+  return undefined
+}
+
+/**
+ * Clothing info for the try-on prompt: item details plus the size-guide fit for this fit type
+ */
+export function buildClothingInfo(
+  item: ItemData | null | undefined,
+  sizeRec: Pick<SizeRecommendation, FitType> | null,
+  measurements: CalculatedMeasurement[],
+  fit: FitType
+): ClothingInfo {
+  const recSize = sizeRec?.[fit]
+  return {
+    name: item?.name || 'Clothing item',
+    type: item?.type || 'tops',
+    color: item?.color || '',
+    fitSentence: getFitSentence(item, sizeRec, measurements, fit),
+    sizeLabel: recSize
+      ? convertSizeForDisplay(recSize.toUpperCase().trim(), item?.brand, item?.gender, item?.availableSizes)
+      : undefined
+  }
+}
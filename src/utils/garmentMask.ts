@@ -0,0 +1,171 @@
+/**
+ * Garment Mask
+ * Shopper-drawn mask of the clothing region in the person photo
+ *
+ * The mask is a PNG the same size as the cropped photo: white where the garment may be
+ * replaced, black everywhere else. It is sent with the try-on request, and the generated
+ * image is composited back onto the original photo through a feathered copy of the mask,
+ * so edits stay inside the painted region whatever the provider does.
+ *
+ * Tops and bottoms are painted as separate masks, so a try-on only uses the mask of its own
+ * garment; fits that sit wider than the person's clothes grow the mask outward first.
+ */
+
+import { isBottomType } from './sizeCollector'
+import type { GarmentCategory } from './tryOnProvider'
+
+// One mask per garment category; a category without one is generated from the prompt only
+export type GarmentMasks = Partial<Record<GarmentCategory, string>>
+
+// Feather radius as a fraction of the image's shorter side (softens the seam)
+const FEATHER_FRACTION = 0.012
+
+// Mask pixels at or above this luminance count as painted (for coverage)
+const PAINTED_MIN = 128
+
+// Directions sampled when growing the mask (evenly spaced around a circle)
+const GROW_DIRECTIONS = 16
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error('Could not load image'))
+    img.src = src
+  })
+}
+
+/**
+ * Mask painted for an item's garment category, or null when that category has none
+ */
+export function getGarmentMask(masks: GarmentMasks | undefined, itemType: string): string | null {
+  return masks?.[isBottomType(itemType) ? 'bottom' : 'top'] ?? null
+}
+
+/**
+ * Convert a transparent brush layer (any opaque stroke = painted) into a black/white mask PNG
+ *
+ * @param strokes - Canvas holding the brush strokes at the photo's pixel size
+ */
+export function strokesToMask(strokes: HTMLCanvasElement): string {
+  const canvas = document.createElement('canvas')
+  canvas.width = strokes.width
+  canvas.height = strokes.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Failed to get canvas context')
+
+  // Recolor the strokes white, then put black behind them
+  ctx.drawImage(strokes, 0, 0)
+  ctx.globalCompositeOperation = 'source-in'
+  ctx.fillStyle = '#fff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.globalCompositeOperation = 'destination-over'
+  ctx.fillStyle = '#000'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+  return canvas.toDataURL('image/png')
+}
+
+/**
+ * Fraction of the image covered by the mask (0-1), sampled on every 4th pixel
+ */
+export function maskCoverage(strokes: HTMLCanvasElement): number {
+  const ctx = strokes.getContext('2d')
+  if (!ctx || strokes.width === 0 || strokes.height === 0) return 0
+
+  const { data } = ctx.getImageData(0, 0, strokes.width, strokes.height)
+  let painted = 0
+  let sampled = 0
+  for (let i = 0; i < data.length; i += 16) {
+    sampled++
+    if (data[i + 3] >= PAINTED_MIN) painted++
+  }
+  return sampled === 0 ? 0 : painted / sampled
+}
+
+/**
+ * Grow the painted region outward (dilation: max over shifted copies of the mask)
+ *
+ * @param mask - Black/white mask (data URL)
+ * @param fraction - Growth radius as a fraction of the mask's shorter side
+ * @returns PNG data URL at the mask's size
+ */
+export async function growMask(mask: string, fraction: number): Promise<string> {
+  const maskImg = await loadImage(mask)
+  const canvas = document.createElement('canvas')
+  canvas.width = maskImg.width
+  canvas.height = maskImg.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Failed to get canvas context')
+
+  ctx.drawImage(maskImg, 0, 0)
+  const radius = Math.round(Math.min(canvas.width, canvas.height) * fraction)
+  if (radius < 1) return mask
+
+  // 'lighten' keeps the brighter pixel, so white spreads over black; two rings fill the gaps
+  ctx.globalCompositeOperation = 'lighten'
+  for (const ring of [radius / 2, radius]) {
+    for (let i = 0; i < GROW_DIRECTIONS; i++) {
+      const angle = (i / GROW_DIRECTIONS) * Math.PI * 2
+      ctx.drawImage(maskImg, Math.cos(angle) * ring, Math.sin(angle) * ring)
+    }
+  }
+  return canvas.toDataURL('image/png')
+}
+
+/**
+ * Keep the generated pixels inside the mask and the original photo everywhere else
+ *
+ * @param generated - Generated try-on image (data URL)
+ * @param original - Photo sent to the provider (data URL)
+ * @param mask - Black/white mask (data URL); scaled to the generated image
+ * @returns PNG data URL at the generated image's size
+ */
+export async function compositeWithMask(generated: string, original: string, mask: string): Promise<string> {
+  const [generatedImg, originalImg, maskImg] = await Promise.all([
+    loadImage(generated),
+    loadImage(original),
+    loadImage(mask)
+  ])
+
+  const width = generatedImg.width
+  const height = generatedImg.height
+  const feather = Math.max(1, Math.round(Math.min(width, height) * FEATHER_FRACTION))
+
+  // Feathered mask as alpha: white → opaque
+  const alphaCanvas = document.createElement('canvas')
+  alphaCanvas.width = width
+  alphaCanvas.height = height
+  const alphaCtx = alphaCanvas.getContext('2d')
+  if (!alphaCtx) throw new Error('Failed to get canvas context')
+  alphaCtx.filter = `blur(${feather}px)`
+  alphaCtx.drawImage(maskImg, 0, 0, width, height)
+  alphaCtx.filter = 'none'
+
+  const alphaData = alphaCtx.getImageData(0, 0, width, height)
+  for (let i = 0; i < alphaData.data.length; i += 4) {
+    alphaData.data[i + 3] = alphaData.data[i]
+  }
+  alphaCtx.putImageData(alphaData, 0, 0)
+
+  // Generated image cut to the mask
+  const garmentCanvas = document.createElement('canvas')
+  garmentCanvas.width = width
+  garmentCanvas.height = height
+  const garmentCtx = garmentCanvas.getContext('2d')
+  if (!garmentCtx) throw new Error('Failed to get canvas context')
+  garmentCtx.drawImage(alphaCanvas, 0, 0)
+  garmentCtx.globalCompositeOperation = 'source-in'
+  garmentCtx.drawImage(generatedImg, 0, 0, width, height)
+
+  // Original photo underneath, masked garment on top
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Failed to get canvas context')
+  ctx.drawImage(originalImg, 0, 0, width, height)
+  ctx.drawImage(garmentCanvas, 0, 0)
+
+  return canvas.toDataURL('image/png')
+}
@@ -0,0 +1,88 @@
+/**
+ * Gemini Try-On Provider
+ * Sends try-on requests to the Duke Gemini backend endpoint and parses Gemini candidates
+ */
+
+import type { TryOnProvider, TryOnRequest, ParsedTryOnResponse, ContentBlock } from './tryOnProvider'
+import { TryOnError, classifyHttpStatus } from './tryOnRetry'
+
+// Backend API endpoint
+const BACKEND_URL = 'https://closai-backend.vercel.app'
+const GEMINI_TRYON_API = `${BACKEND_URL}/api/gemini-tryon-duke`
+
+// Gemini finish reasons that mean the content filter rejected the request
+const BLOCKED_FINISH_REASONS: Record<string, ContentBlock> = {
+  PROHIBITED_CONTENT: 'prohibited_content',
+  IMAGE_OTHER: 'image_other'
+}
+
+// Shape of the parts of a Gemini response we read
+interface GeminiPart {
+  text?: string
+  inlineData?: { mimeType?: string; data?: string }
+}
+
+interface GeminiCandidate {
+  finishReason?: string
+  content?: { parts?: GeminiPart[] }
+}
+
+interface GeminiResponse {
+  candidates?: GeminiCandidate[]
+}
+
+function firstCandidate(response: unknown): GeminiCandidate | undefined {
+  return (response as GeminiResponse)?.candidates?.[0]
+}
+
+export const geminiTryOnProvider: TryOnProvider = {
+  name: 'gemini',
+  supportsMask: true,
+
+  async send(request: TryOnRequest, signal: AbortSignal): Promise<unknown> {
+    const response = await fetch(GEMINI_TRYON_API, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal,
+      body: JSON.stringify({
+        avatarBase64: request.avatarBase64,
+        clothingBase64Images: request.clothingBase64Images,
+        prompt: request.prompt,
+        aspectRatio: request.aspectRatio,
+        keyIndex: request.keyIndex,
+        ...(request.maskBase64 && { maskBase64: request.maskBase64 })
+      })
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      const message = (errorData as { error?: string }).error || `API error: ${response.status}`
+      throw new TryOnError(classifyHttpStatus(response.status), message, response.status)
+    }
+
+    return response.json()
+  },
+
+  detectContentBlock(response: unknown): ContentBlock | null {
+    const candidate = firstCandidate(response)
+    // No candidate at all means the prompt itself was blocked
+    if (!candidate) return 'prohibited_content'
+    return BLOCKED_FINISH_REASONS[candidate.finishReason || ''] || null
+  },
+
+  parseResponse(response: unknown): ParsedTryOnResponse {
+    let imageDataUrl: string | null = null
+    let analysisText: string | undefined
+
+    for (const part of firstCandidate(response)?.content?.parts || []) {
+      if (part.inlineData?.mimeType?.includes('image')) {
+        imageDataUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`
+      }
+      if (part.text) {
+        analysisText = part.text
+      }
+    }
+
+    return { imageDataUrl, analysisText }
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Image Provenance
+ * Embeds and reads AI-generation metadata in exported try-on PNGs
+ *
+ * Metadata is stored as uncompressed iTXt chunks (UTF-8, so product names survive)
+ * inserted right after IHDR. Any PNG reader that understands text chunks (exiftool,
+ * Photoshop, `pngcheck -t`) shows them; the in-app verifier reads them back with
+ * readProvenance.
+ */
+
+// Keyword prefix for every chunk we write (PNG keywords are 1-79 Latin-1 characters)
+const KEY_PREFIX = 'TryIt:'
+
+// IPTC digital source type for fully AI-generated media
+const DIGITAL_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia'
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10]
+
+// Provenance record written into exported images
+export interface ImageProvenance {
+  aiGenerated: true
+  software: string
+  product: string
+  recommendedSize: string | null
+  fitType: string
+  generatedAt: string   // ISO 8601
+  promptHash: string    // SHA-256 of the prompt text (hex)
+}
+
+// Field order and PNG keyword for each provenance field
+const FIELD_KEYS: Record<keyof ImageProvenance, string> = {
+  aiGenerated: 'AIGenerated',
+  software: 'Software',
+  product: 'Product',
+  recommendedSize: 'RecommendedSize',
+  fitType: 'FitType',
+  generatedAt: 'CreationTime',
+  promptHash: 'PromptHash'
+}
+
+// CRC-32 table (PNG chunk checksums)
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((b, i) => bytes[i] === b)
+}
+
+/**
+ * Build a complete chunk (length, type, data, CRC)
+ */
+function buildChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i)
+  chunk.set(data, 8)
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+  return chunk
+}
+
+/**
+ * Uncompressed iTXt chunk: keyword, null, compression flag, method, language, null, translated keyword, null, text
+ */
+function buildITxtChunk(keyword: string, text: string): Uint8Array {
+  const encoder = new TextEncoder()
+  const keywordBytes = encoder.encode(keyword)
+  const textBytes = encoder.encode(text)
+  const data = new Uint8Array(keywordBytes.length + 5 + textBytes.length)
+  data.set(keywordBytes, 0)
+  // Null separator, compression flag 0, compression method 0, empty language tag, empty translated keyword
+  data.set(textBytes, keywordBytes.length + 5)
+  return buildChunk('iTXt', data)
+}
+
+interface RawChunk {
+  type: string
+  data: Uint8Array
+  end: number   // Offset just past this chunk
+}
+
+function* readChunks(bytes: Uint8Array): Generator<RawChunk> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = PNG_SIGNATURE.length
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    const end = offset + 12 + length
+    if (end > bytes.length) return
+    yield { type, data: bytes.subarray(offset + 8, offset + 8 + length), end }
+    if (type === 'IEND') return
+    offset = end
+  }
+}
+
+/**
+ * Read tEXt and uncompressed iTXt chunks as keyword → text
+ */
+export function readPngTextChunks(bytes: Uint8Array): Record<string, string> {
+  const entries: Record<string, string> = {}
+  if (!isPng(bytes)) return entries
+
+  const latin1 = new TextDecoder('latin1')
+  const utf8 = new TextDecoder()
+
+  for (const { type, data } of readChunks(bytes)) {
+    const keywordEnd = data.indexOf(0)
+    if (keywordEnd < 0) continue
+    const keyword = latin1.decode(data.subarray(0, keywordEnd))
+
+    if (type === 'tEXt') {
+      entries[keyword] = latin1.decode(data.subarray(keywordEnd + 1))
+    } else if (type === 'iTXt') {
+      const compressed = data[keywordEnd + 1] === 1
+      if (compressed) continue
+      // Skip language tag and translated keyword (both null-terminated)
+      const languageEnd = data.indexOf(0, keywordEnd + 3)
+      const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1)
+      if (translatedEnd < 0) continue
+      entries[keyword] = utf8.decode(data.subarray(translatedEnd + 1))
+    }
+  }
+  return entries
+}
+
+/**
+ * Insert text chunks right after IHDR
+ * Returns the input unchanged if it is not a PNG.
+ */
+export function addPngTextChunks(bytes: Uint8Array<ArrayBuffer>, entries: Record<string, string>): Uint8Array<ArrayBuffer> {
+  if (!isPng(bytes)) return bytes
+
+  const header = readChunks(bytes).next()
+  if (header.done || header.value.type !== 'IHDR') return bytes
+
+  const chunks = Object.entries(entries).map(([keyword, text]) => buildITxtChunk(keyword, text))
+  const insertedLength = chunks.reduce((sum, c) => sum + c.length, 0)
+  const insertAt = header.value.end
+
+  const output = new Uint8Array(bytes.length + insertedLength)
+  output.set(bytes.subarray(0, insertAt), 0)
+  let offset = insertAt
+  for (const chunk of chunks) {
+    output.set(chunk, offset)
+    offset += chunk.length
+  }
+  output.set(bytes.subarray(insertAt), offset)
+  return output
+}
+
+/**
+ * Embed provenance metadata into a PNG blob
+ */
+export async function embedProvenance(blob: Blob, provenance: Omit<ImageProvenance, 'aiGenerated' | 'software'>): Promise<Blob> {
+  const record: ImageProvenance = { aiGenerated: true, software: 'TryIt virtual try-on', ...provenance }
+  const entries: Record<string, string> = {
+    [`${KEY_PREFIX}DigitalSourceType`]: DIGITAL_SOURCE_TYPE
+  }
+  for (const [field, key] of Object.entries(FIELD_KEYS) as [keyof ImageProvenance, string][]) {
+    const value = record[field]
+    if (value === null) continue
+    entries[`${KEY_PREFIX}${key}`] = String(value)
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  return new Blob([addPngTextChunks(bytes, entries)], { type: blob.type })
+}
+
+/**
+ * Read provenance metadata back from a file
+ * Returns null when the file is not a PNG or carries no TryIt provenance.
+ */
+export async function readProvenance(file: Blob): Promise<ImageProvenance | null> {
+  const entries = readPngTextChunks(new Uint8Array(await file.arrayBuffer()))
+  const get = (field: keyof ImageProvenance) => entries[`${KEY_PREFIX}${FIELD_KEYS[field]}`]
+
+  if (get('aiGenerated') !== 'true') return null
+  return {
+    aiGenerated: true,
+    software: get('software') || '',
+    product: get('product') || '',
+    recommendedSize: get('recommendedSize') ?? null,
+    fitType: get('fitType') || '',
+    generatedAt: get('generatedAt') || '',
+    promptHash: get('promptHash') || ''
+  }
+}
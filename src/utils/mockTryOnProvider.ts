@@ -0,0 +1,92 @@
+/**
+ * Mock Try-On Provider
+ * Offline, deterministic provider: composites the garment cutouts onto the person photo
+ * with a fit-dependent width. Same inputs always give the same image, and the provider itself
+ * makes no request: it draws the product images tryOnService has already loaded as base64.
+ */
+
+import type { TryOnProvider, TryOnRequest, ParsedTryOnResponse, ContentBlock, GarmentCategory } from './tryOnProvider'
+import type { FitType } from './tryOnService'
+import { removeWhiteBackground } from './removeWhiteBackground'
+import { TryOnError } from './tryOnRetry'
+
+// Garment width as a fraction of the photo width, per category and fit
+const GARMENT_WIDTH: Record<GarmentCategory, Record<FitType, number>> = {
+  top: { tight: 0.42, regular: 0.5, comfortable: 0.6 },
+  bottom: { tight: 0.36, regular: 0.42, comfortable: 0.5 }
+}
+
+// Top edge of the garment as a fraction of the photo height
+const GARMENT_TOP: Record<GarmentCategory, number> = {
+  top: 0.28,
+  bottom: 0.55
+}
+
+// Raw response produced by send()
+interface MockResponse {
+  imageDataUrl: string
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error('Could not load image'))
+    img.src = src
+  })
+}
+
+function toDataUrl(base64: string): string {
+  return base64.startsWith('data:') ? base64 : `data:image/jpeg;base64,${base64}`
+}
+
+export const mockTryOnProvider: TryOnProvider = {
+  name: 'mock',
+  supportsMask: false,
+
+  async send(request: TryOnRequest, signal: AbortSignal): Promise<unknown> {
+    if (signal.aborted) throw new TryOnError('cancelled', 'Request aborted')
+
+    const person = await loadImage(toDataUrl(request.avatarBase64))
+    const garments = await Promise.all(request.clothingBase64Images.map(async (image, i) => {
+      const cutout = await removeWhiteBackground(toDataUrl(image), {
+        threshold: 245,
+        tolerance: 10,
+        smoothEdges: false,
+        cropToContent: true
+      })
+      return { image: await loadImage(cutout), category: request.garmentCategories[i] ?? 'top' }
+    }))
+
+    if (signal.aborted) throw new TryOnError('cancelled', 'Request aborted')
+
+    const canvas = document.createElement('canvas')
+    canvas.width = person.width
+    canvas.height = person.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Failed to get canvas context')
+
+    ctx.drawImage(person, 0, 0)
+
+    // Bottoms first so a top hangs over the waistband
+    const ordered = [...garments].sort((a, b) => (a.category === 'bottom' ? 0 : 1) - (b.category === 'bottom' ? 0 : 1))
+    for (const { image, category } of ordered) {
+      const garmentWidth = canvas.width * GARMENT_WIDTH[category][request.fitType]
+      const garmentHeight = garmentWidth * (image.height / image.width)
+      const garmentX = (canvas.width - garmentWidth) / 2
+      const garmentY = canvas.height * GARMENT_TOP[category]
+      ctx.drawImage(image, garmentX, garmentY, garmentWidth, garmentHeight)
+    }
+
+    const response: MockResponse = { imageDataUrl: canvas.toDataURL('image/png') }
+    return response
+  },
+
+  detectContentBlock(): ContentBlock | null {
+    return null
+  },
+
+  parseResponse(response: unknown): ParsedTryOnResponse {
+    return { imageDataUrl: (response as MockResponse)?.imageDataUrl || null }
+  }
+}
@@ -45,6 +45,13 @@ export interface PersonAnalysis {
   proportions: BodyProportions
 }
 
+/**
+ * Whether an age range is sized with youth size guides and body formulas
+ */
+export function isYouthAge(ageRange?: AgeRange | null): boolean {
+  return ageRange === 'children' || ageRange === 'teenager'
+}
+
 // Clothing type categories
 export type ClothingType = 'shirt' | 'pants' | 'jacket' | 'dress' | 'unknown'
 
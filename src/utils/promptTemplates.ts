@@ -0,0 +1,140 @@
+/**
+ * Prompt Templates
+ * Versioned registry of try-on prompt templates loaded from data/promptTemplates.json
+ *
+ * Each template covers one garment category (men's tops, women's tops, bottoms, a
+ * top + bottom outfit, a back view of any single garment, or outerwear layered over the
+ * person's own top) and has a body per fit type, optionally split into variants:
+ * 'standard' and 'structured' (jackets, fleeces, zips), or 'standard' (closed) and 'open'
+ * for layered outerwear.
+ * The registry's `active` map picks which version each category uses, so a bad prompt revision
+ * can be rolled back by editing the data file only.
+ *
+ * Template syntax:
+ *   {{name}}               - variable (itemName, itemColor, sizeFit, ...)
+ *   {{>name}}              - fragment shared within the template
+ *   {{#name}}...{{/name}}  - section rendered only when the variable is non-empty
+ *   {{#name=value}}...{{/name}} - section rendered only when the variable equals value
+ */
+
+import promptTemplateData from '../data/promptTemplates.json'
+
+export type PromptCategory = 'tops_men' | 'tops_women' | 'bottoms' | 'outfit' | 'back_view' | 'outerwear_layered'
+export type PromptFit = 'tight' | 'regular' | 'comfortable'
+export type PromptVariant = 'standard' | 'structured' | 'open'
+export type TuckStyle = 'tucked' | 'half_tuck' | 'untucked'
+
+// Body per variant; 'standard' is required, other variants fall back to it
+type FitBodies = { standard: string } & Partial<Record<PromptVariant, string>>
+
+export interface PromptTemplate {
+  id: string
+  version: number
+  category: PromptCategory
+  description?: string
+  fragments: Record<string, string>
+  fits: Record<PromptFit, FitBodies>
+}
+
+interface PromptTemplateRegistry {
+  active: Record<PromptCategory, number>
+  templates: PromptTemplate[]
+}
+
+// Reference to the template revision that produced a prompt (recorded on every TryOnResult)
+export interface PromptTemplateRef {
+  id: string
+  version: number
+}
+
+// Values substituted into the template
+export interface PromptVariables {
+  itemName: string
+  itemNameLower: string
+  itemType: string
+  itemColor: string
+  gender: string
+  fit: PromptFit
+  sizeFit: string
+  tuck: TuckStyle
+}
+
+// Values substituted into the outfit template (one top and one bottom)
+export interface OutfitPromptVariables {
+  topName: string
+  topColor: string
+  bottomName: string
+  bottomColor: string
+  gender: string
+  fit: PromptFit
+  topSizeFit: string
+  bottomSizeFit: string
+}
+
+export interface RenderedPrompt {
+  text: string
+  template: PromptTemplateRef
+}
+
+const registry = promptTemplateData as unknown as PromptTemplateRegistry
+
+/**
+ * Get a template for a category
+ * Uses the registry's active version unless a specific version is requested
+ */
+export function getPromptTemplate(category: PromptCategory, version?: number): PromptTemplate {
+  const targetVersion = version ?? registry.active[category]
+  const template = registry.templates.find(
+    t => t.category === category && t.version === targetVersion
+  )
+  if (!template) {
+    throw new Error(`No prompt template for ${category} v${targetVersion}`)
+  }
+  return template
+}
+
+/**
+ * Substitute fragments, sections and variables into a template body
+ */
+function fillTemplate(
+  body: string,
+  fragments: Record<string, string>,
+  variables: PromptVariables | OutfitPromptVariables,
+  depth: number = 0
+): string {
+  if (depth > 5) {
+    throw new Error('Prompt template fragments nested too deeply')
+  }
+
+  const values = variables as unknown as Record<string, string>
+
+  return body
+    .replace(/\{\{>(\w+)\}\}/g, (_, name: string) => {
+      const fragment = fragments[name]
+      if (fragment === undefined) throw new Error(`Unknown prompt fragment: ${name}`)
+      return fillTemplate(fragment, fragments, variables, depth + 1)
+    })
+    .replace(/\{\{#(\w+)(?:=(\w+))?\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, expected: string | undefined, inner: string) =>
+      (expected === undefined ? values[name] : values[name] === expected) ? inner : ''
+    )
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => values[name] ?? '')
+}
+
+/**
+ * Render the prompt for a category, fit and variant
+ */
+export function renderPrompt(
+  category: PromptCategory,
+  variant: PromptVariant,
+  variables: PromptVariables | OutfitPromptVariables,
+  version?: number
+): RenderedPrompt {
+  const template = getPromptTemplate(category, version)
+  const bodies = template.fits[variables.fit]
+  const body = bodies[variant] ?? bodies.standard
+
+  return {
+    text: fillTemplate(body, template.fragments, variables),
+    template: { id: template.id, version: template.version }
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Reference Garment
+ * Body measurements inferred from a size the recipient already wears in another brand
+ *
+ * A gift shopper who knows "she wears a Nike M" picks that brand, clothing type and size.
+ * The brand's guide gives the body range the size is cut for; each range is treated as a
+ * uniform spread (plus an allowance for how loosely people follow size charts) and blended
+ * with the height/weight estimate by inverse variance, so a narrow reference range outweighs
+ * the formula while dimensions the reference guide doesn't list keep the formula value.
+ */
+
+import { getSizeGuideBrands, getSizeGuideSizes, getAvailableCombos, type ClothingCombo, type Measurement } from './sizeCollector'
+import { normalizeSize } from './sizeSystems'
+
+// Garment the recipient owns and the size they wear in it
+export interface ReferenceGarment {
+  brand: string
+  clothingType: string
+  gender: string
+  size: string
+}
+
+// Body ranges (cm) the reference size is cut for, keyed like size guide measurements
+export type ReferenceBody = Record<string, Measurement>
+
+// An estimate after blending with the reference range
+export interface BlendedEstimate {
+  value: number  // cm
+  error: number  // Standard deviation (cm)
+}
+
+// Guide measurements that describe the garment or wearer height rather than a body girth
+const SKIPPED_KEYS = ['length', 'body_length', 'height']
+
+// How far people stray from the chart when picking their size (standard deviation, cm)
+const SIZE_CHOICE_ERROR_CM = 2
+
+// Half-width assumed around single-value measurements (cm)
+const VALUE_TOLERANCE_CM = 2
+
+/**
+ * Brands that can serve as a reference (every brand with a size guide)
+ */
+export function getReferenceBrands(): string[] {
+  return getSizeGuideBrands()
+}
+
+/**
+ * Clothing types and genders a brand's guides cover
+ */
+export function getReferenceCombos(brand: string): ClothingCombo[] {
+  return getAvailableCombos(brand)
+}
+
+/**
+ * Size labels of one brand guide, as listed
+ */
+export function getReferenceSizes(brand: string, clothingType: string, gender: string): string[] {
+  return getSizeGuideSizes(brand, clothingType, gender).map(entry => entry.label)
+}
+
+/**
+ * Body ranges the reference size is cut for, or null when the guide doesn't list the size
+ */
+export function getReferenceBody(reference: ReferenceGarment | null | undefined): ReferenceBody | null {
+  if (!reference) return null
+  const entry = getSizeGuideSizes(reference.brand, reference.clothingType, reference.gender)
+    .find(size => normalizeSize(size.label) === normalizeSize(reference.size))
+  if (!entry) return null
+
+  const body: ReferenceBody = {}
+  for (const [key, measurement] of Object.entries(entry.measurements)) {
+    if (SKIPPED_KEYS.includes(key)) continue
+    // Some guides list a bare number instead of a measurement object
+    body[key] = typeof measurement === 'number' ? { value: measurement } : measurement
+  }
+  return Object.keys(body).length > 0 ? body : null
+}
+
+/**
+ * Short description of the reference ("Nike men's tops M")
+ */
+export function describeReference(reference: ReferenceGarment): string {
+  const gender = ['men', 'women'].includes(reference.gender) ? `${reference.gender}'s ` : `${reference.gender} `
+  return `${reference.brand} ${gender}${reference.clothingType} ${normalizeSize(reference.size)}`
+}
+
+/**
+ * Blend a formula estimate with the reference range by inverse variance
+ *
+ * @param estimate - Height/weight formula value (cm)
+ * @param estimateError - Standard deviation of the formula value (cm)
+ * @param range - Body range the reference size is cut for (cm)
+ */
+export function blendWithReference(estimate: number, estimateError: number, range: Measurement): BlendedEstimate {
+  const min = range.min ?? (range.value !== undefined ? range.value - VALUE_TOLERANCE_CM : undefined)
+  const max = range.max ?? (range.value !== undefined ? range.value + VALUE_TOLERANCE_CM : undefined)
+  if (min === undefined || max === undefined) return { value: estimate, error: estimateError }
+
+  const referenceValue = (min + max) / 2
+  const referenceVariance = (max - min) ** 2 / 12 + SIZE_CHOICE_ERROR_CM ** 2
+  const estimateWeight = 1 / estimateError ** 2
+  const referenceWeight = 1 / referenceVariance
+  return {
+    value: (estimate * estimateWeight + referenceValue * referenceWeight) / (estimateWeight + referenceWeight),
+    error: Math.sqrt(1 / (estimateWeight + referenceWeight))
+  }
+}
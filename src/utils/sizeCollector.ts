@@ -1,6 +1,10 @@
 import type { ItemData } from '../App'
 import sizeGuidesCm from '../../size_guides/size_guides_cm.json'
 import sizeGuidesInch from '../../size_guides/size_guides_inch.json'
+import genericYouthCm from '../../size_guides/generic_youth_cm.json'
+import genericYouthInch from '../../size_guides/generic_youth_inch.json'
+import { compareSizes, formatFitVariantSize, getFitVariant, getSizeSystem, normalizeSize, parseWaistInseam, parseWaistInseamGrid, toBrandSize, toLetterSize, type FitVariant, type WaistInseamGrid } from './sizeSystems'
+import { isYouthAge, type AgeRange } from './personAnalyzer'
 
 // Types for size guide data
 interface Measurement {
@@ -18,6 +22,8 @@ interface BrandEntry {
   brand: string
   clothing_type: string
   gender: string
+  variant?: FitVariant   // Size line; absent for the regular line
+  height?: Measurement   // Wearer heights a tall / petite line is cut for
   sizes: SizeEntry[]
 }
 
@@ -32,6 +38,18 @@ export interface SizeGuide {
   gender: string
   cm: SizeEntry[]
   inch: SizeEntry[]
+  grid?: WaistInseamGrid  // Waist × inseam bottoms: the waists and inseams the item comes in
+  variant?: FitVariant    // Size line this guide covers
+  variants?: FitVariantGuide[]  // Tall / petite / big lines the item is also sold in
+  generic?: boolean       // Generic youth chart, not one the brand publishes
+}
+
+// Guide for another size line of the same item
+export interface FitVariantGuide {
+  variant: FitVariant
+  height?: Measurement  // Wearer heights the line is cut for (cm)
+  cm: SizeEntry[]
+  inch: SizeEntry[]
 }
 
 export interface ClothingCombo {
@@ -39,93 +57,24 @@ export interface ClothingCombo {
   gender: string
 }
 
-/**
- * Normalize size label to a standard format for comparison
- * Maps various size names to a canonical form
- */
-function normalizeSize(size: string): string {
-  const s = size.toLowerCase().trim()
-
-  // Map common variations to standard labels
-  const mappings: Record<string, string> = {
-    // Extra small
-    'xs': 'xs',
-    'x-small': 'xs',
-    'xsmall': 'xs',
-    'extra small': 'xs',
-    'extra-small': 'xs',
-    // Small
-    's': 's',
-    'small': 's',
-    'sm': 's',
-    // Medium
-    'm': 'm',
-    'medium': 'm',
-    'med': 'm',
-    // Large
-    'l': 'l',
-    'large': 'l',
-    'lg': 'l',
-    // Extra large
-    'xl': 'xl',
-    'x-large': 'xl',
-    'xlarge': 'xl',
-    'extra large': 'xl',
-    'extra-large': 'xl',
-    // 2XL
-    '2xl': '2xl',
-    'xxl': '2xl',
-    '2x': '2xl',
-    'xx-large': '2xl',
-    'xxlarge': '2xl',
-    '2x-large': '2xl',
-    'xx large': '2xl',
-    // 3XL
-    '3xl': '3xl',
-    'xxxl': '3xl',
-    '3x': '3xl',
-    'xxx-large': '3xl',
-    'xxxlarge': '3xl',
-    '3x-large': '3xl',
-    // 4XL
-    '4xl': '4xl',
-    'xxxxl': '4xl',
-    '4x': '4xl',
-    // Youth sizes
-    'ys': 'ys',
-    'youth small': 'ys',
-    'youth s': 'ys',
-    'ym': 'ym',
-    'youth medium': 'ym',
-    'youth m': 'ym',
-    'yl': 'yl',
-    'youth large': 'yl',
-    'youth l': 'yl',
-    'yxl': 'yxl',
-    'youth xl': 'yxl',
-    'youth x-large': 'yxl',
-  }
+// Body waist range a labeled waist size covers, ± inches (a 32 fits a 31-33in waist)
+const WAIST_RANGE_IN = 1
 
-  return mappings[s] || s
-}
+const CM_PER_INCH = 2.54
 
-/**
- * Lululemon women's numerical-to-letter size mapping
- * Source: lululemon.com/help/size-guide/womens
- */
-const lululemonWomensNumToLetter: Record<string, string> = {
-  '0': 'xxxs',
-  '2': 'xxs',
-  '4': 'xs',
-  '6': 's',
-  '8': 'm',
-  '10': 'l',
-  '12': 'xl',
-  '14': 'xl',
-  '16': '1x',
-  '18': '1x',
-  '20': '2x',
-}
+// Brand name the generic youth guides are filed under (no brand's own youth chart is on file)
+const GENERIC_YOUTH_BRAND = 'Generic'
+
+// Item genders and title words that mark a kids' item
+const YOUTH_GENDERS = ['youth', 'kids', 'boys', 'girls']
+const YOUTH_NAME_PATTERN = /\b(youth|kids?'?|boys'?|girls'?|toddler)\b/i
+
+// Title words that name a size line ("Big & Tall" is left to the sizes, then read as tall)
+const FIT_VARIANT_NAME_PATTERNS: [FitVariant, RegExp][] = [
+  ['petite', /\bpetite\b/i],
+  ['big', /\bbig\b(?!\s*(&|and)\s*tall)/i],
+  ['tall', /\btall\b/i]
+]
 
 /**
  * Filter size entries to only include available sizes
@@ -137,19 +86,8 @@ function filterSizesByAvailability(
   brand?: string,
   gender?: string
 ): SizeEntry[] {
-  const isLululemonWomens = brand?.toLowerCase() === 'lululemon' &&
-    gender?.toLowerCase() === 'women'
-
-  // Normalize all available sizes, applying brand-specific mapping if needed
-  const normalizedAvailable = new Set(
-    availableSizes.map(s => {
-      const normalized = normalizeSize(s)
-      if (isLululemonWomens && lululemonWomensNumToLetter[normalized]) {
-        return lululemonWomensNumToLetter[normalized]
-      }
-      return normalized
-    })
-  )
+  // Normalize all available sizes, converting brand numeric sizes to letters
+  const normalizedAvailable = new Set(availableSizes.map(s => toLetterSize(s, brand, gender)))
 
   // Filter size entries that match available sizes
   return sizes.filter(entry => {
@@ -166,6 +104,8 @@ export function getAvailableCombos(brand: string): ClothingCombo[] {
   const combos: ClothingCombo[] = []
 
   for (const entry of data.brands) {
+    // Tall / petite / big lines ride along with their regular combo
+    if (entry.variant && entry.variant !== 'regular') continue
     if (entry.brand.toLowerCase() === brand.toLowerCase()) {
       combos.push({
         clothing_type: entry.clothing_type,
@@ -178,29 +118,108 @@ export function getAvailableCombos(brand: string): ClothingCombo[] {
 }
 
 /**
- * Get size guide entry for a specific brand, clothing type, and gender
+ * Brands that publish a size guide, in file order
+ */
+export function getSizeGuideBrands(): string[] {
+  const data = sizeGuidesCm as SizeGuideData
+  return [...new Set(data.brands.map(entry => entry.brand))]
+}
+
+/**
+ * Sizes (cm) of a brand's regular-line guide for one clothing type and gender
+ */
+export function getSizeGuideSizes(brand: string, clothingType: string, gender: string): SizeEntry[] {
+  return getSizeGuideEntry(brand, clothingType, gender, sizeGuidesCm as SizeGuideData)?.sizes || []
+}
+
+/**
+ * Get size guide entry for a specific brand, clothing type, gender and size line
  */
 function getSizeGuideEntry(
   brand: string,
   clothingType: string,
   gender: string,
-  data: SizeGuideData
+  data: SizeGuideData,
+  variant: FitVariant = 'regular'
 ): BrandEntry | null {
   return data.brands.find(
     entry =>
       entry.brand.toLowerCase() === brand.toLowerCase() &&
       entry.clothing_type.toLowerCase() === clothingType.toLowerCase() &&
-      entry.gender.toLowerCase() === gender.toLowerCase()
+      entry.gender.toLowerCase() === gender.toLowerCase() &&
+      (entry.variant || 'regular') === variant
   ) || null
 }
 
+/**
+ * Size line the item is sold in: the line its sizes are labeled in (LT, XLT → tall),
+ * else the line its title names; a mix of regular and other sizes is the regular line
+ */
+function detectFitVariant(item: ItemData): FitVariant {
+  const sizeVariants = new Set((item.availableSizes || []).map(getFitVariant))
+  if (sizeVariants.size > 0 && !sizeVariants.has('regular')) return [...sizeVariants][0]
+  if (sizeVariants.size > 1) return 'regular'
+  return FIT_VARIANT_NAME_PATTERNS.find(([, pattern]) => pattern.test(item.name || ''))?.[0] || 'regular'
+}
+
+/**
+ * The brand's tall, petite and big guides for a combo, limited to the sizes the item is
+ * sold in (every size when the item lists none); lines with no available size are dropped
+ */
+function collectVariantGuides(
+  brand: string,
+  clothingType: string,
+  gender: string,
+  availableSizes: string[]
+): FitVariantGuide[] {
+  const cmData = sizeGuidesCm as SizeGuideData
+  const inchData = sizeGuidesInch as SizeGuideData
+  const filter = (sizes: SizeEntry[]) =>
+    availableSizes.length > 0 ? filterSizesByAvailability(sizes, availableSizes, brand, gender) : sizes
+
+  const guides: FitVariantGuide[] = []
+  for (const variant of ['tall', 'petite', 'big'] as const) {
+    const cmEntry = getSizeGuideEntry(brand, clothingType, gender, cmData, variant)
+    if (!cmEntry) continue
+    const inchEntry = getSizeGuideEntry(brand, clothingType, gender, inchData, variant)
+    const guide = { variant, height: cmEntry.height, cm: filter(cmEntry.sizes), inch: filter(inchEntry?.sizes || []) }
+    if (guide.cm.length > 0) guides.push(guide)
+  }
+  return guides
+}
+
+/**
+ * Whether the item is made for kids: a youth gender, a kids' title, or youth sizes (YS, YM, ...)
+ */
+function isYouthItem(item: ItemData): boolean {
+  if (YOUTH_GENDERS.includes((item.gender || '').toLowerCase())) return true
+  if (YOUTH_NAME_PATTERN.test(item.name || '')) return true
+  return (item.availableSizes || []).some(size => getSizeSystem(size) === 'youth')
+}
+
+/**
+ * Whether to size with the generic youth guide: for kids' items, and for young recipients
+ * (children, teenagers) when the item lists no adult sizes to match against
+ */
+function needsYouthGuide(item: ItemData, recipientAge?: AgeRange): boolean {
+  if (isYouthItem(item)) return true
+  const hasAdultSizes = (item.availableSizes || []).some(size => {
+    const system = getSizeSystem(size)
+    return system !== null && system !== 'youth'
+  })
+  return isYouthAge(recipientAge) && !hasAdultSizes
+}
+
 /**
  * Rule-based combo selection using keyword matching
  * Analyzes item fields and descriptions to determine clothing type and gender
+ *
+ * Youth sizing uses the generic youth guide (tops, or bottoms for bottoms) whatever the brand.
  */
 function selectCombo(
   item: ItemData & { brand: string },
-  availableCombos: ClothingCombo[]
+  availableCombos: ClothingCombo[],
+  recipientAge?: AgeRange
 ): ClothingCombo {
   // Determine target clothing type: tops, bottoms, or sweater
   let targetType = isBottomType(item.type || '') ? 'bottoms' : 'tops'
@@ -214,6 +233,11 @@ function selectCombo(
     }
   }
 
+  // Priority 0: Generic youth guide of the target type
+  if (needsYouthGuide(item, recipientAge)) {
+    return { clothing_type: targetType === 'bottoms' ? 'bottoms' : 'tops', gender: 'youth' }
+  }
+
   // Determine target gender
   let targetGender = 'unisex' // default
   const itemGender = (item.gender || '').toLowerCase()
@@ -292,19 +316,11 @@ function buildUnisexSizes(menSizes: SizeEntry[], womenSizes: SizeEntry[]): SizeE
   for (const s of womenSizes) womenByLabel.set(normalizeSize(s.label), s)
 
   // Collect all unique labels in canonical order
-  const SIZE_ORDER = ['xxxs', 'xxs', 'xs', 's', 'm', 'l', 'xl', '2xl', '3xl', '4xl']
   const allLabels = new Set<string>()
   for (const s of menSizes) allLabels.add(normalizeSize(s.label))
   for (const s of womenSizes) allLabels.add(normalizeSize(s.label))
 
-  const sortedLabels = [...allLabels].sort((a, b) => {
-    const ia = SIZE_ORDER.indexOf(a)
-    const ib = SIZE_ORDER.indexOf(b)
-    if (ia === -1 && ib === -1) return 0
-    if (ia === -1) return 1
-    if (ib === -1) return -1
-    return ia - ib
-  })
+  const sortedLabels = [...allLabels].sort(compareSizes)
 
   const result: SizeEntry[] = []
   for (const label of sortedLabels) {
@@ -336,6 +352,39 @@ function buildUnisexSizes(menSizes: SizeEntry[], womenSizes: SizeEntry[]): SizeE
   return result
 }
 
+/**
+ * Size guide for waist × inseam bottoms, built from the labels themselves
+ * (a 32x30 is cut for a ~32in waist and a 30in inseam), so no brand guide is needed
+ */
+function buildWaistInseamGuide(item: ItemData & { brand: string }, grid: WaistInseamGrid): SizeGuide {
+  const round = (n: number) => Math.round(n * 10) / 10
+  const entries = (unitsPerInch: number): SizeEntry[] =>
+    [...grid.labels].sort(compareSizes).map(label => {
+      const { waist, inseam } = parseWaistInseam(label)!
+      return {
+        label,
+        measurements: {
+          waist: { min: round((waist - WAIST_RANGE_IN) * unitsPerInch), max: round((waist + WAIST_RANGE_IN) * unitsPerInch) },
+          inseam: { value: round(inseam * unitsPerInch) }
+        }
+      }
+    })
+
+  const itemGender = (item.gender || '').toLowerCase()
+  const gender = itemGender === 'men' || itemGender === 'mens'
+    ? 'men'
+    : itemGender === 'women' || itemGender === 'womens' ? 'women' : 'unisex'
+
+  return {
+    brand: item.brand,
+    clothing_type: 'bottoms',
+    gender,
+    cm: entries(CM_PER_INCH),
+    inch: entries(1),
+    grid
+  }
+}
+
 /**
  * Collect size guide data for an item
  * Returns size measurements in both cm and inch, filtered by available sizes
@@ -344,19 +393,26 @@ function buildUnisexSizes(menSizes: SizeEntry[], womenSizes: SizeEntry[]): SizeE
  * instead of using precomputed unisex data.
  *
  * @param item - Item with brand identified (must have availableSizes)
+ * @param recipientAge - Age range of the person it is for, when known (picks youth guides)
  */
 export function collectSizeGuide(
-  item: ItemData & { brand: string }
+  item: ItemData & { brand: string },
+  recipientAge?: AgeRange
 ): SizeGuide | null {
   const availableSizes = item.availableSizes || []
+
+  // Waist × inseam bottoms carry their measurements in the size label
+  const grid = parseWaistInseamGrid(availableSizes)
+  if (grid) return buildWaistInseamGuide(item, grid)
+
   const availableCombos = getAvailableCombos(item.brand)
 
-  if (availableCombos.length === 0) {
+  if (availableCombos.length === 0 && !needsYouthGuide(item, recipientAge)) {
     return null
   }
 
   // Select the best combo using rule-based keyword matching (determines clothing type)
-  const selectedCombo = selectCombo(item, availableCombos)
+  const selectedCombo = selectCombo(item, availableCombos, recipientAge)
   const clothingType = selectedCombo.clothing_type
 
   // Determine effective gender from item
@@ -370,8 +426,18 @@ export function collectSizeGuide(
   let cmSizes: SizeEntry[]
   let inchSizes: SizeEntry[]
   let effectiveGender: string
+  let fitVariant: FitVariant = 'regular'
+  let variantGuides: FitVariantGuide[] = []
 
-  if (isUnisex) {
+  if (selectedCombo.gender === 'youth') {
+    // One generic youth guide per clothing type, shared by boys and girls of every brand
+    const cmEntry = getSizeGuideEntry(GENERIC_YOUTH_BRAND, clothingType, 'youth', genericYouthCm as SizeGuideData)
+    const inchEntry = getSizeGuideEntry(GENERIC_YOUTH_BRAND, clothingType, 'youth', genericYouthInch as SizeGuideData)
+    if (!cmEntry && !inchEntry) return null
+    cmSizes = cmEntry?.sizes || []
+    inchSizes = inchEntry?.sizes || []
+    effectiveGender = 'youth'
+  } else if (isUnisex) {
     // Dynamically build unisex by averaging men's and women's guides
     const menCm = getSizeGuideEntry(item.brand, clothingType, 'men', cmData)
     const womenCm = getSizeGuideEntry(item.brand, clothingType, 'women', cmData)
@@ -384,12 +450,20 @@ export function collectSizeGuide(
     effectiveGender = 'unisex'
   } else {
     const gender = (itemGender === 'mens' || itemGender === 'men') ? 'men' : 'women'
-    const cmEntry = getSizeGuideEntry(item.brand, clothingType, gender, cmData)
-    const inchEntry = getSizeGuideEntry(item.brand, clothingType, gender, inchData)
+    // Tall / petite / big items use that line's guide when the brand publishes one
+    const detectedVariant = detectFitVariant(item)
+    if (getSizeGuideEntry(item.brand, clothingType, gender, cmData, detectedVariant)) {
+      fitVariant = detectedVariant
+    }
+    const cmEntry = getSizeGuideEntry(item.brand, clothingType, gender, cmData, fitVariant)
+    const inchEntry = getSizeGuideEntry(item.brand, clothingType, gender, inchData, fitVariant)
     if (!cmEntry && !inchEntry) return null
     cmSizes = cmEntry?.sizes || []
     inchSizes = inchEntry?.sizes || []
     effectiveGender = gender
+    if (fitVariant === 'regular') {
+      variantGuides = collectVariantGuides(item.brand, clothingType, gender, availableSizes)
+    }
   }
 
   // Filter by available sizes if provided
@@ -397,8 +471,12 @@ export function collectSizeGuide(
   let filteredInch = inchSizes
 
   if (availableSizes.length > 0) {
-    filteredCm = filterSizesByAvailability(cmSizes, availableSizes, item.brand, item.gender)
-    filteredInch = filterSizesByAvailability(inchSizes, availableSizes, item.brand, item.gender)
+    // A line named only in the title may list its sizes without the variant letter ("L" for "LT")
+    const lineSizes = fitVariant === 'regular'
+      ? availableSizes
+      : availableSizes.map(size => formatFitVariantSize(size, fitVariant))
+    filteredCm = filterSizesByAvailability(cmSizes, lineSizes, item.brand, item.gender)
+    filteredInch = filterSizesByAvailability(inchSizes, lineSizes, item.brand, item.gender)
   }
 
   return {
@@ -406,14 +484,27 @@ export function collectSizeGuide(
     clothing_type: clothingType,
     gender: effectiveGender,
     cm: filteredCm,
-    inch: filteredInch
+    inch: filteredInch,
+    variant: fitVariant,
+    variants: variantGuides.length > 0 ? variantGuides : undefined,
+    generic: selectedCombo.gender === 'youth' || undefined
   }
 }
 
 /**
- * Convert a letter size recommendation back to lululemon women's numerical size.
- * Only converts when the item's available sizes are actually numerical.
- * Returns the original size if no conversion applies.
+ * Item with the size guide for the person it is for: children and teenagers get the
+ * generic youth guide when one applies (guides collected at scan time assume an adult)
+ */
+export function applyRecipientSizeGuide(item: ItemData, recipientAge?: AgeRange): ItemData {
+  if (!item.brand || !isYouthAge(recipientAge)) return item
+  const sizeGuide = collectSizeGuide({ ...item, brand: item.brand }, recipientAge)
+  return sizeGuide ? { ...item, sizeGuide } : item
+}
+
+/**
+ * Convert a letter size recommendation to the size the item is labeled in
+ * (e.g. lululemon women's numerical sizes). Only converts to numerical sizes when the
+ * item's available sizes are numerical; otherwise returns the canonical letter size.
  */
 export function convertSizeForDisplay(
   size: string,
@@ -422,39 +513,7 @@ export function convertSizeForDisplay(
   availableSizes?: string[]
 ): string {
   if (!size) return size
-
-  // Normalize short-form size labels (2X → 2XL, 3X → 3XL, etc.)
-  const shortFormMap: Record<string, string> = {
-    '2X': '2XL',
-    '3X': '3XL',
-    '4X': '4XL',
-  }
-  const upper = size.toUpperCase().trim()
-  if (shortFormMap[upper]) {
-    size = shortFormMap[upper]
-  }
-
-  if (brand?.toLowerCase() !== 'lululemon' || gender?.toLowerCase() !== 'women') return size
-
-  // Only convert if the item's available sizes are numerical
-  const hasNumericalSizes = availableSizes?.some(s => /^\d+$/.test(s.trim()))
-  if (!hasNumericalSizes) return size
-
-  // Reverse mapping: letter → smallest numerical equivalent
-  const letterToNum: Record<string, string> = {
-    'xxxs': '0',
-    'xxs': '2',
-    'xs': '4',
-    's': '6',
-    'm': '8',
-    'l': '10',
-    'xl': '12',
-    '1x': '16',
-    '2x': '20',
-  }
-
-  const normalized = size.toLowerCase().trim()
-  return letterToNum[normalized] || size
+  return toBrandSize(size, brand, gender, availableSizes)
 }
 
 /**
@@ -3,12 +3,13 @@
  * Determines recommended clothing sizes based on user measurements and body analysis
  */
 
-import type { SizeGuide, Measurement } from './sizeCollector'
-import type { BodyComposition } from './personAnalyzer'
-import { BODY_COMPOSITION_FACTOR } from './personAnalyzer'
-
-// Size order for standard sizing (smallest to largest)
-const SIZE_ORDER = ['XXXS', 'XXS', 'XS', 'S', 'M', 'L', 'XL', '1X', '2XL', '3XL', '4XL']
+import type { SizeGuide, SizeEntry, Measurement } from './sizeCollector'
+import type { AgeRange, BodyComposition } from './personAnalyzer'
+import { BODY_COMPOSITION_FACTOR, isYouthAge } from './personAnalyzer'
+import { estimateSizeLikelihoods, getEstimateError, MEASURED_ERROR_CM, type SizeLikelihoods } from './sizeProbability'
+import { blendWithReference, type BlendedEstimate, type ReferenceBody } from './referenceGarment'
+import { applyFabricAdjustment, type FabricFitAdjustment } from './fiberContent'
+import { formatWaistInseam, getSizeIndex as getSystemSizeIndex, getSizeOrder, getSizeSystem, normalizeSize, parseWaistInseam, type FitVariant, type WaistInseamGrid } from './sizeSystems'
 
 // Size recommendation result
 export interface SizeRecommendation {
@@ -18,6 +19,64 @@ export interface SizeRecommendation {
   confidence: 'high' | 'medium' | 'low'
   method: 'size_guide' | 'estimation'
   notes?: string
+  dimensions?: DimensionRecommendation  // Waist × inseam bottoms only
+  fitVariant?: FitVariantSuggestion     // Tall / petite / big line that fits better, when sold
+  fabricAdjustment?: FabricFitAdjustment  // Stretch or shrinkage the size match allowed for
+  likelihoods?: SizeLikelihoods         // Probability per available size and per fit
+  trace?: RecommendationTrace           // How the sizes were chosen
+}
+
+export type MeasurementVerdict = 'in_range' | 'smaller' | 'larger'
+
+// Rule that chose the regular size
+export type SizeRule =
+  | 'optimal'         // Every measurement in range
+  | 'acceptable'      // Smallest size with half or fewer measurements over its range
+  | 'too_small'       // Smaller than every size: smallest size, comfortable only
+  | 'too_large'       // Larger than every size: largest size, tight only
+  | 'chest_estimate'  // No size guide: chest lookup table
+
+// One measurement of a candidate size: body estimate against the size's range (cm)
+export interface TraceMeasurement {
+  key: string
+  estimate: number
+  range: Measurement
+  verdict: MeasurementVerdict
+}
+
+// A size the recommendation considered, smallest first
+export interface TraceCandidate {
+  size: string
+  measurements: TraceMeasurement[]
+}
+
+// Structured record of a recommendation, rendered by the "How size is estimated" sheet
+export interface RecommendationTrace {
+  estimates: Record<string, number>  // Estimated body dimensions (cm)
+  measured: string[]                 // Estimates that are tape-measured rather than calculated
+  referenced: string[]               // Estimates blended with a reference garment's size range
+  candidates: TraceCandidate[]
+  rule: SizeRule
+  ruleReason: string                 // Why the regular size was chosen
+  neighbors: {                       // Why the tight and comfortable sizes were chosen
+    tight: string
+    comfortable: string
+  }
+}
+
+// Another size line of the item suggested alongside the regular recommendation
+export interface FitVariantSuggestion {
+  variant: FitVariant
+  size: string    // Recommended size in that line ("XLT")
+  reason: string
+}
+
+// Per-dimension recommendation for waist × inseam bottoms (inches)
+export interface DimensionRecommendation {
+  waist: number       // Regular-fit waist (nearest available when out of range)
+  inseam: number      // Closest available inseam
+  bodyWaist: number   // Estimated body waist
+  bodyInseam: number  // Estimated body inseam
 }
 
 // User measurements input
@@ -26,33 +85,29 @@ export interface UserMeasurements {
   weight: number           // in kg
   gender: 'male' | 'female' | 'teenager' | 'unknown'
   bodyComposition?: BodyComposition
+  ageRange?: AgeRange
+  growthAllowance?: boolean  // Children only: size up every dimension by GROWTH_ALLOWANCE
+  measured?: TapeMeasurements  // Tape-measured dimensions, used instead of the formulas
+  reference?: ReferenceBody    // Body ranges of a size the person wears in another brand
 }
 
-/**
- * Normalize size label to standard format
- */
-function normalizeSize(size: string): string {
-  const s = size.toUpperCase().trim()
-  const mappings: Record<string, string> = {
-    'XSMALL': 'XS', 'X-SMALL': 'XS', 'EXTRA SMALL': 'XS',
-    'SMALL': 'S', 'SM': 'S',
-    'MEDIUM': 'M', 'MED': 'M',
-    'LARGE': 'L', 'LG': 'L',
-    'XLARGE': 'XL', 'X-LARGE': 'XL', 'EXTRA LARGE': 'XL',
-    'XXLARGE': '2XL', 'XX-LARGE': '2XL', 'XXL': '2XL', '2X': '2XL',
-    'XXXLARGE': '3XL', 'XXX-LARGE': '3XL', 'XXXL': '3XL', '3X': '3XL',
-    'XXXXLARGE': '4XL', 'XXXX-LARGE': '4XL', 'XXXXL': '4XL', '4X': '4XL'
-  }
-  return mappings[s] || s
-}
+// Body dimensions a shopper can enter from a tape measure
+export type TapeMeasurementKey = 'chest' | 'waist' | 'hips' | 'inseam'
+
+// Tape-measured body dimensions in cm (only the ones entered)
+export type TapeMeasurements = Partial<Record<TapeMeasurementKey, number>>
+
+export const TAPE_MEASUREMENT_KEYS: TapeMeasurementKey[] = ['chest', 'waist', 'hips', 'inseam']
+
+// Room to grow for children, as a share of each body dimension (about six months of growth)
+const GROWTH_ALLOWANCE = 0.04
 
 /**
- * Get size index in SIZE_ORDER array
+ * Get size index within the size's own system (alpha for unrecognized sizes)
  */
 function getSizeIndex(size: string): number {
-  const normalized = normalizeSize(size)
-  const index = SIZE_ORDER.indexOf(normalized)
-  return index >= 0 ? index : SIZE_ORDER.indexOf('M') // Default to M
+  const index = getSystemSizeIndex(size, getSizeSystem(size) ?? 'alpha')
+  return index >= 0 ? index : getSystemSizeIndex('M') // Default to M
 }
 
 /**
@@ -60,6 +115,35 @@ function getSizeIndex(size: string): number {
  */
 type EdgeCase = 'too_small' | 'too_large' | 'normal'
 
+/**
+ * Why the tight and comfortable sizes next to the regular one were chosen
+ */
+function describeNeighbors(
+  sizes: { regular: string; tight: string; comfortable: string },
+  edgeCase: EdgeCase
+): RecommendationTrace['neighbors'] {
+  if (edgeCase === 'too_small') {
+    return {
+      tight: 'No fitted option: smaller than every size.',
+      comfortable: `${sizes.comfortable} is the smallest size and will fit loosely.`
+    }
+  }
+  if (edgeCase === 'too_large') {
+    return {
+      tight: `${sizes.tight} is the largest size and will fit tightly.`,
+      comfortable: 'No relaxed option: larger than every size.'
+    }
+  }
+  return {
+    tight: sizes.tight
+      ? `${sizes.tight} is one size down from ${sizes.regular}.`
+      : `No fitted option: ${sizes.regular} is the smallest size.`,
+    comfortable: sizes.comfortable
+      ? `${sizes.comfortable} is one size up from ${sizes.regular}.`
+      : `No relaxed option: ${sizes.regular} is the largest size.`
+  }
+}
+
 /**
  * Get adjacent sizes (one up, one down) from available sizes
  * Handles edge cases where person is too small or too large for available sizes
@@ -115,6 +199,7 @@ function getAdjacentSizes(
 /**
  * Calculate a single body dimension using improved anthropometric formulas
  * Uses body composition factor (F) to adjust for lean/average/soft builds
+ * Children and teenagers use youth formulas regardless of gender.
  *
  * F values: lean = 0.85, average = 1.00, soft = 1.25
  */
@@ -123,19 +208,22 @@ export function calculateDimension(
   weight: number,
   measurementKey: string,
   gender: 'male' | 'female' | 'teenager' | 'unknown' = 'unknown',
-  bodyComposition: BodyComposition = 'average'
+  bodyComposition: BodyComposition = 'average',
+  ageRange: AgeRange = 'adult'
 ): number | null {
   const normalizedKey = measurementKey.toLowerCase().replace(/\s+/g, '_')
   const F = BODY_COMPOSITION_FACTOR[bodyComposition]
 
-  // Use gender-specific formulas
-  if (gender === 'male') {
+  // Youth size guides list the height each size is cut for
+  if (normalizedKey === 'height') return height
+
+  // Use age- and gender-specific formulas
+  if (isYouthAge(ageRange) || gender === 'teenager') {
+    return calculateYouthDimension(height, weight, normalizedKey, F)
+  } else if (gender === 'male') {
     return calculateMaleDimension(height, weight, normalizedKey, F)
   } else if (gender === 'female') {
     return calculateFemaleDimension(height, weight, normalizedKey, F)
-  } else if (gender === 'teenager') {
-    // Teenager uses female formulas by default
-    return calculateFemaleDimension(height, weight, normalizedKey, F)
   } else {
     // Unknown: average of male and female
     const male = calculateMaleDimension(height, weight, normalizedKey, F)
@@ -207,6 +295,84 @@ function calculateFemaleDimension(H: number, W: number, key: string, F: number):
   }
 }
 
+/**
+ * Youth body dimension formulas (children and teenagers, either gender)
+ * H = height in cm, W = weight in kg, F = body composition factor (0.85/1.00/1.25)
+ *
+ * Fitted to youth size charts from 122cm/25kg (chest ~64cm) to 164cm/53kg (chest ~86cm).
+ * Children carry less of their weight on the torso than adults, so weight counts for less.
+ */
+function calculateYouthDimension(H: number, W: number, key: string, F: number): number | null {
+  switch (key) {
+    case 'chest':
+      return (0.25 * H + 0.45 * W + 22) * (0.95 + 0.05 * F)
+    case 'waist':
+      return (0.12 * H + 0.35 * W + 35) * (0.90 + 0.10 * F)
+    case 'hips':
+      return (0.36 * H + 0.25 * W + 15) * (0.93 + 0.07 * F)
+    case 'length':
+      return 0.40 * H
+    case 'shoulder':
+      return (0.45 * H + 0.25 * (W - 40) + 20) * (0.93 + 0.07 * F)
+    case 'inseam':
+      return 0.44 * H
+    case 'thigh':
+      return (0.24 * H + 0.15 * (W - 40) + 8) * (0.90 + 0.10 * F)
+    default:
+      return null
+  }
+}
+
+/**
+ * Tape-measured value of a dimension, if the shopper entered one
+ */
+export function getMeasuredDimension(measured: TapeMeasurements | undefined, measurementKey: string): number | undefined {
+  const value = measured?.[measurementKey as TapeMeasurementKey]
+  return value && value > 0 ? value : undefined
+}
+
+/**
+ * Formula estimate blended with the reference garment's range for that dimension, if any
+ */
+function withReference(user: UserMeasurements, measurementKey: string, value: number): BlendedEstimate {
+  const error = getEstimateError(measurementKey, user.bodyComposition, user.gender === 'male' || user.gender === 'female')
+  const range = user.reference?.[measurementKey]
+  return range ? blendWithReference(value, error, range) : { value, error }
+}
+
+/**
+ * Estimated body dimension for a size match and its uncertainty, with room to grow when
+ * requested for a child
+ * A tape-measured value replaces the formula; otherwise a reference garment narrows it.
+ */
+function estimateDimensionWithError(user: UserMeasurements, measurementKey: string): BlendedEstimate | null {
+  const measured = getMeasuredDimension(user.measured, measurementKey)
+  let estimate: BlendedEstimate
+  if (measured !== undefined) {
+    estimate = { value: measured, error: MEASURED_ERROR_CM }
+  } else {
+    const value = calculateDimension(user.height, user.weight, measurementKey, user.gender, user.bodyComposition || 'average', user.ageRange)
+    if (value === null) return null
+    estimate = withReference(user, measurementKey, value)
+  }
+  if (!user.growthAllowance || user.ageRange !== 'children') return estimate
+  return { ...estimate, value: estimate.value * (1 + GROWTH_ALLOWANCE) }
+}
+
+function estimateDimension(user: UserMeasurements, measurementKey: string): number | null {
+  return estimateDimensionWithError(user, measurementKey)?.value ?? null
+}
+
+/**
+ * Which estimates were tape-measured and which were blended with a reference garment
+ */
+function getEstimateSources(user: UserMeasurements, keys: string[]): Pick<RecommendationTrace, 'measured' | 'referenced'> {
+  const measured = keys.filter(key => getMeasuredDimension(user.measured, key) !== undefined)
+  return {
+    measured,
+    referenced: keys.filter(key => !measured.includes(key) && user.reference?.[key] !== undefined)
+  }
+}
 
 /**
  * Check if user measurement is within, smaller than, or larger than size range
@@ -245,64 +411,61 @@ function getMeasurementFit(
   return 'in_range'
 }
 
-/**
- * Identify size WITH size guide
- * Logic: Size up until all measurements are either in_range or user is smaller than range.
- * Never recommend a size where user is larger than range (too tight).
- * Optimal: all in_range. Acceptable: mix of in_range and smaller. Bad: any larger.
- */
-export function identifySizeWithGuide(
-  user: UserMeasurements,
-  sizeGuide: SizeGuide
-): SizeRecommendation {
-  const availableSizes = sizeGuide.cm.map(s => s.label)
-
-  if (availableSizes.length === 0) {
-    return {
-      regular: 'M',
-      comfortable: 'L',
-      tight: 'S',
-      confidence: 'low',
-      method: 'size_guide',
-      notes: 'Empty size guide'
-    }
-  }
-
-  // Get measurement keys from size guide
-  const measurementKeys = Object.keys(sizeGuide.cm[0].measurements)
-  const bodyComp = user.bodyComposition || 'average'
+// Per-size tally of measurements against the guide ranges
+type SizeAnalysis = {
+  label: string
+  inRangeCount: number
+  smallerCount: number
+  largerCount: number
+  totalCount: number
+  hasAnyLarger: boolean  // User is larger than range for at least one measurement
+  allInRange: boolean    // All measurements in range (optimal)
+}
 
-  // Sort sizes from smallest to largest
-  const sortedSizes = [...sizeGuide.cm].sort((a, b) => getSizeIndex(a.label) - getSizeIndex(b.label))
+// Size picked from a guide, with the rule that picked it
+interface GuidePick {
+  bestSize: string
+  confidence: 'high' | 'medium' | 'low'
+  edgeCase: EdgeCase
+  rule: SizeRule
+  ruleReason: string
+  candidates: TraceCandidate[]
+}
 
+/**
+ * Pick the size for the body estimates from guide entries sorted smallest to largest
+ */
+function pickSizeFromGuide(
+  sortedSizes: SizeEntry[],
+  measurementKeys: string[],
+  estimates: Record<string, number>
+): GuidePick {
   // Analyze each size
-  type SizeAnalysis = {
-    label: string
-    inRangeCount: number
-    smallerCount: number
-    largerCount: number
-    totalCount: number
-    hasAnyLarger: boolean  // User is larger than range for at least one measurement
-    allInRange: boolean    // All measurements in range (optimal)
-  }
-
   const sizeAnalyses: SizeAnalysis[] = []
+  const candidates: TraceCandidate[] = []
 
   for (const sizeEntry of sortedSizes) {
     let inRangeCount = 0
     let smallerCount = 0
     let largerCount = 0
     let totalCount = 0
+    const traceMeasurements: TraceMeasurement[] = []
 
     for (const key of measurementKeys) {
       const measurement = sizeEntry.measurements[key] as Measurement
       if (!measurement) continue
 
-      const userDimension = calculateDimension(user.height, user.weight, key, user.gender, bodyComp)
-      if (userDimension === null) continue
+      const userDimension = estimates[key]
+      if (userDimension === undefined) continue
 
       const fit = getMeasurementFit(userDimension, measurement, key)
       totalCount++
+      traceMeasurements.push({
+        key,
+        estimate: Math.round(userDimension * 10) / 10,
+        range: typeof measurement === 'number' ? { value: measurement } : measurement,
+        verdict: fit
+      })
 
       if (fit === 'in_range') inRangeCount++
       else if (fit === 'smaller') smallerCount++
@@ -319,6 +482,7 @@ export function identifySizeWithGuide(
       hasAnyLarger: largerCount > 0,
       allInRange: totalCount > 0 && inRangeCount === totalCount
     })
+    candidates.push({ size: sizeEntry.label, measurements: traceMeasurements })
   }
 
   // Find best size:
@@ -329,22 +493,29 @@ export function identifySizeWithGuide(
   let bestSize = sortedSizes[sortedSizes.length - 1].label  // Default to largest
   let confidence: 'high' | 'medium' | 'low' = 'low'
   let edgeCase: EdgeCase = 'normal'
+  let rule: SizeRule = 'too_large'
+  let ruleReason = ''
 
   // Try to find optimal (all in range)
   const optimalSize = sizeAnalyses.find(s => s.allInRange)
   if (optimalSize) {
     bestSize = optimalSize.label
     confidence = 'high'
+    rule = 'optimal'
+    ruleReason = `${bestSize} is the first size with every measurement in range.`
   } else {
     // Find smallest size where half or fewer measurements are larger (majority vote)
     const acceptableSize = sizeAnalyses.find(s => s.largerCount * 2 <= s.totalCount)
     if (acceptableSize) {
       bestSize = acceptableSize.label
       confidence = acceptableSize.largerCount === 0 ? 'medium' : 'medium'
+      rule = 'acceptable'
+      ruleReason = `No size has every measurement in range; ${bestSize} is the smallest with at most half its measurements over range (${acceptableSize.largerCount} of ${acceptableSize.totalCount}).`
     } else {
       // User is larger than even the largest size
       edgeCase = 'too_large'
       confidence = 'low'
+      ruleReason = `More than half the measurements are over the range of every size, up to ${bestSize}.`
     }
   }
 
@@ -354,10 +525,63 @@ export function identifySizeWithGuide(
     edgeCase = 'too_small'
     bestSize = smallestAnalysis.label
     confidence = 'low'
+    rule = 'too_small'
+    ruleReason = `Every measurement is under the range of the smallest size, ${bestSize}.`
   }
 
+  return { bestSize, confidence, edgeCase, rule, ruleReason, candidates }
+}
+
+/**
+ * Identify size WITH size guide
+ * Logic: Size up until all measurements are either in_range or user is smaller than range.
+ * Never recommend a size where user is larger than range (too tight).
+ * Optimal: all in_range. Acceptable: mix of in_range and smaller. Bad: any larger.
+ * A fabric adjustment (stretch, shrinkage) is applied to every size's ranges first; the notes
+ * mention it only when it changed the pick.
+ */
+export function identifySizeWithGuide(
+  user: UserMeasurements,
+  sizeGuide: SizeGuide,
+  fabric?: FabricFitAdjustment | null
+): SizeRecommendation {
+  const availableSizes = sizeGuide.cm.map(s => s.label)
+
+  if (availableSizes.length === 0) {
+    return {
+      regular: 'M',
+      comfortable: 'L',
+      tight: 'S',
+      confidence: 'low',
+      method: 'size_guide',
+      notes: 'Empty size guide'
+    }
+  }
+
+  // Get measurement keys from size guide
+  const measurementKeys = Object.keys(sizeGuide.cm[0].measurements)
+
+  // Sort sizes from smallest to largest, with the ranges the fabric will actually wear to
+  const plainSizes = [...sizeGuide.cm].sort((a, b) => getSizeIndex(a.label) - getSizeIndex(b.label))
+  const sortedSizes = plainSizes.map(entry => applyFabricAdjustment(entry, fabric))
+
+  // Estimated body dimensions, also scored with their uncertainty for per-size likelihoods
+  const estimates: Record<string, number> = {}
+  const errors: Record<string, number> = {}
+  for (const key of measurementKeys) {
+    const estimate = estimateDimensionWithError(user, key)
+    if (!estimate) continue
+    estimates[key] = estimate.value
+    errors[key] = estimate.error
+  }
+  const likelihoods = estimateSizeLikelihoods(estimates, sortedSizes, user.bodyComposition, user.gender === 'male' || user.gender === 'female', errors)
+
+  const { bestSize, confidence, edgeCase, rule, ruleReason, candidates } = pickSizeFromGuide(sortedSizes, measurementKeys, estimates)
+
   // Build notes
-  let notes = `Matched using ${sizeGuide.brand} ${sizeGuide.clothing_type} size guide`
+  let notes = sizeGuide.generic
+    ? `Matched using a generic youth ${sizeGuide.clothing_type} size guide, not ${sizeGuide.brand}'s own`
+    : `Matched using ${sizeGuide.brand} ${sizeGuide.clothing_type} size guide`
   if (edgeCase === 'too_small') {
     notes = `Person is smaller than available sizes. ${bestSize} will fit loosely.`
   } else if (edgeCase === 'too_large') {
@@ -366,6 +590,11 @@ export function identifySizeWithGuide(
 
   const { regular, comfortable, tight } = getAdjacentSizes(bestSize, availableSizes, edgeCase)
 
+  const fitVariant = suggestFitVariant(user, sizeGuide, bestSize, edgeCase, fabric)
+  if (fitVariant) notes = `${notes.replace(/\.?$/, '.')} ${fitVariant.reason}`
+  if (fabric && pickSizeFromGuide(plainSizes, measurementKeys, estimates).bestSize !== bestSize) {
+    notes = `${notes.replace(/\.?$/, '.')} ${fabric.reason}`
+  }
 
   return {
     regular,
@@ -373,7 +602,218 @@ export function identifySizeWithGuide(
     tight,
     confidence,
     method: 'size_guide',
-    notes
+    notes,
+    fitVariant,
+    fabricAdjustment: fabric || undefined,
+    likelihoods,
+    trace: {
+      estimates: Object.fromEntries(Object.entries(estimates).map(([key, value]) => [key, Math.round(value * 10) / 10])),
+      ...getEstimateSources(user, Object.keys(estimates)),
+      candidates,
+      rule,
+      ruleReason,
+      neighbors: describeNeighbors({ regular: regular || bestSize, tight, comfortable }, edgeCase)
+    }
+  }
+}
+
+/**
+ * Suggest one of the item's other size lines when the regular line is a poor fit:
+ * tall when the person reaches the tall line's height or is longer in the body than the
+ * recommended size, petite when at most the petite line's height, big when larger than
+ * every regular size
+ */
+function suggestFitVariant(
+  user: UserMeasurements,
+  sizeGuide: SizeGuide,
+  bestSize: string,
+  edgeCase: EdgeCase,
+  fabric?: FabricFitAdjustment | null
+): FitVariantSuggestion | undefined {
+  const bestLength = sizeGuide.cm.find(entry => entry.label === bestSize)?.measurements.length as Measurement | undefined
+  const bodyLength = estimateDimension(user, 'length')
+  const tooShort = !!bestLength && bodyLength !== null && getMeasurementFit(bodyLength, bestLength, 'length') === 'larger'
+
+  for (const guide of sizeGuide.variants || []) {
+    let reason = ''
+    if (guide.variant === 'tall' && (user.height >= (guide.height?.min ?? Infinity) || tooShort)) {
+      reason = 'The tall line adds length in the body and sleeves for this height.'
+    } else if (guide.variant === 'petite' && user.height <= (guide.height?.max ?? 0)) {
+      reason = 'The petite line is cut shorter for this height.'
+    } else if (guide.variant === 'big' && edgeCase === 'too_large') {
+      reason = 'The big line adds room through the chest and waist.'
+    }
+    if (!reason) continue
+
+    const variantRec = identifySizeWithGuide(user, { ...sizeGuide, cm: guide.cm, inch: guide.inch, variant: guide.variant, variants: undefined }, fabric)
+    const size = variantRec.regular || variantRec.tight || variantRec.comfortable
+    if (size) return { variant: guide.variant, size, reason }
+  }
+  return undefined
+}
+
+const CM_PER_INCH = 2.54
+
+/**
+ * Identify size for waist × inseam bottoms
+ * Each dimension is matched on its own: the waist like a one-dimensional size (smallest waist
+ * whose range covers the body, tight and comfortable are the neighbouring waists) and the
+ * inseam as the closest length, the longer one on a tie. Each fit's label combines its waist
+ * with that inseam, or with the nearest inseam the waist is actually sold in.
+ * Likelihoods score every sold label as P(waist in range) × P(its inseam is the closest).
+ * A fabric adjustment (stretch, shrinkage) is applied to the waist ranges.
+ */
+export function identifySizeWithGrid(
+  user: UserMeasurements,
+  sizeGuide: SizeGuide,
+  grid: WaistInseamGrid,
+  fabric?: FabricFitAdjustment | null
+): SizeRecommendation {
+  const { waists, inseams, labels } = grid
+  const waistEstimate = estimateDimensionWithError(user, 'waist')
+  const inseamEstimate = estimateDimensionWithError(user, 'inseam')
+  const bodyWaist = (waistEstimate?.value ?? 0) / CM_PER_INCH
+  const bodyInseam = (inseamEstimate?.value ?? 0) / CM_PER_INCH
+
+  // Guide entries (cm) with the waist ranges the fabric will actually wear to
+  const sizeEntries: SizeEntry[] = sizeGuide.cm.map(entry => ({
+    ...entry,
+    measurements: { ...entry.measurements, waist: applyFabricAdjustment(entry, fabric).measurements.waist }
+  }))
+
+  // Fit of the body waist against each available waist's range in the guide
+  const fitWaists = (entries: SizeEntry[]) => waists.map(waist => {
+    const entry = entries.find(e => parseWaistInseam(e.label)?.waist === waist)
+    const range = entry?.measurements.waist as Measurement | undefined
+    return range ? getMeasurementFit(bodyWaist * CM_PER_INCH, range, 'waist') : 'in_range'
+  })
+  const waistFits = fitWaists(sizeEntries)
+  // Waist the unadjusted ranges would pick, to tell whether the fabric changed it
+  const plainIndex = fabric ? fitWaists(sizeGuide.cm).findIndex(fit => fit !== 'larger') : -1
+
+  let edgeCase: EdgeCase = 'normal'
+  let regularIndex = waistFits.findIndex(fit => fit !== 'larger')
+  const fabricChangedPick = !!fabric && plainIndex !== regularIndex
+  if (regularIndex === -1) {
+    edgeCase = 'too_large'
+    regularIndex = waists.length - 1
+  } else if (waistFits[0] === 'smaller') {
+    edgeCase = 'too_small'
+    regularIndex = 0
+  }
+
+  let inseam = inseams[0]
+  for (const candidate of inseams) {
+    if (Math.abs(candidate - bodyInseam) <= Math.abs(inseam - bodyInseam)) inseam = candidate
+  }
+
+  // Label for a waist: the chosen inseam when sold, else the nearest sold inseam
+  const labelFor = (index: number): string => {
+    if (index < 0 || index >= waists.length) return ''
+    const waist = waists[index]
+    const exact = formatWaistInseam({ waist, inseam })
+    if (labels.includes(exact)) return exact
+    const sold = labels
+      .map(label => parseWaistInseam(label)!)
+      .filter(dims => dims.waist === waist)
+      .sort((a, b) => Math.abs(a.inseam - inseam) - Math.abs(b.inseam - inseam) || b.inseam - a.inseam)
+    return sold.length > 0 ? formatWaistInseam(sold[0]) : ''
+  }
+
+  const waist = waists[regularIndex]
+  const dimensions: DimensionRecommendation = {
+    waist,
+    inseam,
+    bodyWaist: Math.round(bodyWaist * 10) / 10,
+    bodyInseam: Math.round(bodyInseam * 10) / 10
+  }
+
+  // Every sold label against the body estimates (cm)
+  const estimates = { waist: bodyWaist * CM_PER_INCH, inseam: bodyInseam * CM_PER_INCH }
+  const candidates: TraceCandidate[] = sizeEntries.map(entry => ({
+    size: entry.label,
+    measurements: (['waist', 'inseam'] as const)
+      .filter(key => entry.measurements[key])
+      .map(key => ({
+        key,
+        estimate: Math.round(estimates[key] * 10) / 10,
+        range: entry.measurements[key],
+        verdict: getMeasurementFit(estimates[key], entry.measurements[key], key)
+      }))
+  }))
+  const inseamReason = `${inseam} is the closest inseam to the estimated ${bodyInseam.toFixed(1)}in.`
+
+  // Likelihood of every sold label: the inseam counts as matched when it is the closest one,
+  // i.e. the body inseam falls between the midpoints to its neighbouring inseams
+  const inseamRange = (value: number): Measurement => {
+    const index = inseams.indexOf(value)
+    return {
+      min: index > 0 ? ((inseams[index - 1] + value) / 2) * CM_PER_INCH : -Infinity,
+      max: index < inseams.length - 1 ? ((value + inseams[index + 1]) / 2) * CM_PER_INCH : Infinity
+    }
+  }
+  const gridDims = sizeEntries.map(entry => parseWaistInseam(entry.label)!)
+  const gridEntries: SizeEntry[] = sizeEntries.map((entry, i) => ({
+    label: entry.label,
+    measurements: { waist: entry.measurements.waist, inseam: inseamRange(gridDims[i].inseam) }
+  }))
+  // Fit neighbours: the next waist in the same inseam, else the nearest inseam it is sold in
+  const shiftWaist = (index: number, shift: number): number => {
+    const { waist, inseam: entryInseam } = gridDims[index]
+    const targetWaist = waists[waists.indexOf(waist) + shift]
+    let best = -1
+    gridDims.forEach((dims, i) => {
+      if (dims.waist !== targetWaist) return
+      if (best === -1 || Math.abs(dims.inseam - entryInseam) < Math.abs(gridDims[best].inseam - entryInseam)) best = i
+    })
+    return best
+  }
+  const likelihoods = estimateSizeLikelihoods(
+    estimates,
+    gridEntries,
+    user.bodyComposition,
+    user.gender === 'male' || user.gender === 'female',
+    { waist: waistEstimate?.error ?? getEstimateError('waist'), inseam: inseamEstimate?.error ?? getEstimateError('inseam') },
+    shiftWaist
+  )
+
+  let sizes: { regular: string; tight: string; comfortable: string }
+  let trace: Pick<RecommendationTrace, 'rule' | 'ruleReason'>
+  let notes: string
+  if (edgeCase === 'too_small') {
+    sizes = { regular: '', tight: '', comfortable: labelFor(0) }
+    trace = { rule: 'too_small', ruleReason: `The estimated ${bodyWaist.toFixed(1)}in waist is under the smallest waist, ${waist}. ${inseamReason}` }
+    notes = `Person is smaller than available waists. ${waist} will fit loosely.`
+  } else if (edgeCase === 'too_large') {
+    sizes = { regular: '', comfortable: '', tight: labelFor(waists.length - 1) }
+    trace = { rule: 'too_large', ruleReason: `The estimated ${bodyWaist.toFixed(1)}in waist is over the largest waist, ${waist}. ${inseamReason}` }
+    notes = `Person is larger than available waists. ${waist} will fit tightly.`
+  } else {
+    sizes = { regular: labelFor(regularIndex), tight: labelFor(regularIndex - 1), comfortable: labelFor(regularIndex + 1) }
+    trace = waistFits[regularIndex] === 'in_range'
+      ? { rule: 'optimal', ruleReason: `Waist ${waist} covers the estimated ${bodyWaist.toFixed(1)}in waist. ${inseamReason}` }
+      : { rule: 'acceptable', ruleReason: `Waist ${waist} is the smallest waist above the estimated ${bodyWaist.toFixed(1)}in. ${inseamReason}` }
+    notes = `Matched waist ${bodyWaist.toFixed(1)}in to ${waist} and inseam ${bodyInseam.toFixed(1)}in to ${inseam}`
+  }
+  if (fabricChangedPick) {
+    notes = `${notes.replace(/\.?$/, '.')} ${fabric.reason}`
+  }
+
+  return {
+    ...sizes,
+    confidence: edgeCase === 'normal' ? 'medium' : 'low',
+    method: 'size_guide',
+    notes,
+    dimensions,
+    fabricAdjustment: fabric || undefined,
+    likelihoods,
+    trace: {
+      estimates: { waist: Math.round(estimates.waist * 10) / 10, inseam: Math.round(estimates.inseam * 10) / 10 },
+      ...getEstimateSources(user, ['waist', 'inseam']),
+      candidates,
+      ...trace,
+      neighbors: describeNeighbors({ ...sizes, regular: sizes.regular || labelFor(regularIndex) }, edgeCase)
+    }
   }
 }
 
@@ -406,9 +846,14 @@ function lookupSizeFromChest(
     }
   }
 
+  return resolveBetweenSize(rawSize, bodyComposition)
+}
 
-  // Handle between-sizes based on body composition
-  // lean = size down, average/soft = size up
+/**
+ * Handle between-sizes ("XS-S") based on body composition
+ * lean = size down, average/soft = size up
+ */
+function resolveBetweenSize(rawSize: string, bodyComposition: BodyComposition): string {
   if (rawSize.includes('-')) {
     const [smaller, larger] = rawSize.split('-')
     if (bodyComposition === 'lean') {
@@ -421,21 +866,67 @@ function lookupSizeFromChest(
   return rawSize
 }
 
+/**
+ * Chest range (cm) each available size covers under the lookup table, for likelihoods:
+ * table sizes the item isn't sold in count toward the closest available size, as in the
+ * recommendation itself
+ *
+ * @param sortedAvailable - Available sizes, smallest first
+ */
+function getChestSizeEntries(
+  sortedAvailable: string[],
+  clothingGender: 'men' | 'women' | 'unisex',
+  bodyComposition: BodyComposition
+): SizeEntry[] {
+  const table = CHEST_SIZES[clothingGender] || CHEST_SIZES['unisex']
+  const thresholds = Object.keys(table).map(Number).sort((a, b) => a - b)
+  const closestAvailable = (size: string): string => {
+    const exact = sortedAvailable.find(s => normalizeSize(s) === normalizeSize(size))
+    if (exact) return exact
+    const index = getSizeIndex(size)
+    return sortedAvailable.reduce((best, s) =>
+      Math.abs(getSizeIndex(s) - index) < Math.abs(getSizeIndex(best) - index) ? s : best
+    )
+  }
+
+  const ranges = new Map<string, Measurement>()
+  let lower = -Infinity
+  for (const threshold of thresholds) {
+    const upper = threshold === thresholds[thresholds.length - 1] ? Infinity : threshold
+    const size = closestAvailable(resolveBetweenSize(table[threshold], bodyComposition))
+    const range = ranges.get(size)
+    if (range) range.max = upper
+    else ranges.set(size, { min: lower, max: upper })
+    lower = upper
+  }
+
+  // Sizes no table range maps to get an empty range
+  return sortedAvailable.map(label => ({ label, measurements: { chest: ranges.get(label) ?? { min: 0, max: 0 } } }))
+}
+
 /**
  * Identify size WITHOUT size guide - uses chest measurement lookup
+ * Likelihoods score each available size by the chest range the lookup maps to it. A fabric
+ * adjustment shifts the lookup as it would the table's ranges: stretch lets the chest reach
+ * past each size's upper bound, shrinkage scales the bounds down.
  */
 export function identifySizeWithoutGuide(
   user: UserMeasurements,
   clothingGender: 'men' | 'women' | 'unisex',
-  availableSizes: string[]
+  availableSizes: string[],
+  fabric?: FabricFitAdjustment | null
 ): SizeRecommendation {
   const { height, weight, gender, bodyComposition } = user
   const comp = bodyComposition || 'average'
 
 
-  // Calculate chest size using the formulas (no body type factor for chest)
+  // Calculate chest size using the formulas (no body type factor for chest), unless tape-measured;
+  // a reference garment narrows the formula value
+  const measuredChest = getMeasuredDimension(user.measured, 'chest')
   let chest: number
-  if (gender === 'male') {
+  if (measuredChest !== undefined) {
+    chest = measuredChest
+  } else if (gender === 'male') {
     chest = (weight * 240) / height
   } else if (gender === 'female') {
     chest = (weight * 260) / height
@@ -445,12 +936,20 @@ export function identifySizeWithoutGuide(
     const femaleChest = (weight * 260) / height
     chest = (maleChest + femaleChest) / 2
   }
+  let chestError = MEASURED_ERROR_CM
+  if (measuredChest === undefined) {
+    ({ value: chest, error: chestError } = withReference(user, 'chest', chest))
+  }
+  if (user.growthAllowance && user.ageRange === 'children') {
+    chest *= 1 + GROWTH_ALLOWANCE
+  }
 
-  // Look up size from chest measurement
-  const regularSize = lookupSizeFromChest(chest, clothingGender, comp)
+  // Look up size from chest measurement, as the fabric will wear
+  const fabricChest = fabric ? (chest - fabric.stretchCm) / (1 - fabric.shrinkage) : chest
+  const regularSize = lookupSizeFromChest(fabricChest, clothingGender, comp)
 
   // Find closest available size and detect edge cases
-  const sizesToUse = availableSizes.length > 0 ? availableSizes : SIZE_ORDER
+  const sizesToUse = availableSizes.length > 0 ? availableSizes : getSizeOrder('alpha')
   const sortedAvailable = [...sizesToUse].sort((a, b) => getSizeIndex(a) - getSizeIndex(b))
   const smallestAvailable = sortedAvailable[0]
   const largestAvailable = sortedAvailable[sortedAvailable.length - 1]
@@ -463,7 +962,9 @@ export function identifySizeWithoutGuide(
 
   let finalRegularSize = regularSize
   let edgeCase: EdgeCase = 'normal'
-  let notes = `Estimated from chest ${chest.toFixed(1)}cm (height: ${height}cm, weight: ${weight}kg, build: ${comp})`
+  let notes = measuredChest !== undefined
+    ? `Matched measured chest ${chest.toFixed(1)}cm`
+    : `Estimated from chest ${chest.toFixed(1)}cm (height: ${height}cm, weight: ${weight}kg, build: ${comp})`
 
   // Check if user's ideal size is smaller than the smallest available
   if (regularIndex < smallestIndex) {
@@ -491,6 +992,23 @@ export function identifySizeWithoutGuide(
 
   const { regular, comfortable, tight } = getAdjacentSizes(finalRegularSize, sizesToUse, edgeCase)
 
+  if (fabric && lookupSizeFromChest(chest, clothingGender, comp) !== regularSize) {
+    notes = `${notes.replace(/\.?$/, '.')} ${fabric.reason}`
+  }
+
+  const likelihoods = estimateSizeLikelihoods(
+    { chest },
+    getChestSizeEntries(sortedAvailable, clothingGender, comp).map(entry => applyFabricAdjustment(entry, fabric)),
+    comp,
+    gender === 'male' || gender === 'female',
+    { chest: chestError }
+  )
+
+  const ruleReason = edgeCase === 'too_small'
+    ? `The ${regularSize} the chest estimate maps to is under the smallest size, ${finalRegularSize}.`
+    : edgeCase === 'too_large'
+      ? `The ${regularSize} the chest estimate maps to is over the largest size, ${finalRegularSize}.`
+      : `No size guide: a ${chest.toFixed(1)}cm chest maps to ${regularSize}${finalRegularSize === regularSize ? '' : `, closest available ${finalRegularSize}`}.`
 
   return {
     regular,
@@ -498,7 +1016,17 @@ export function identifySizeWithoutGuide(
     tight,
     confidence: 'medium',
     method: 'estimation',
-    notes
+    notes,
+    fabricAdjustment: fabric || undefined,
+    likelihoods,
+    trace: {
+      estimates: { chest: Math.round(chest * 10) / 10 },
+      ...getEstimateSources(user, ['chest']),
+      candidates: [],
+      rule: edgeCase === 'normal' ? 'chest_estimate' : edgeCase,
+      ruleReason,
+      neighbors: describeNeighbors({ regular: regular || finalRegularSize, tight, comfortable }, edgeCase)
+    }
   }
 }
 
@@ -510,12 +1038,15 @@ export function identifySize(
   user: UserMeasurements,
   sizeGuide: SizeGuide | null | undefined,
   clothingGender: 'men' | 'women' | 'unisex' = 'unisex',
-  availableSizes: string[] = []
+  availableSizes: string[] = [],
+  fabric?: FabricFitAdjustment | null
 ): SizeRecommendation {
 
-  if (sizeGuide && sizeGuide.cm.length > 0) {
-    return identifySizeWithGuide(user, sizeGuide)
+  if (sizeGuide?.grid && sizeGuide.cm.length > 0) {
+    return identifySizeWithGrid(user, sizeGuide, sizeGuide.grid, fabric)
+  } else if (sizeGuide && sizeGuide.cm.length > 0) {
+    return identifySizeWithGuide(user, sizeGuide, fabric)
   } else {
-    return identifySizeWithoutGuide(user, clothingGender, availableSizes)
+    return identifySizeWithoutGuide(user, clothingGender, availableSizes, fabric)
   }
 }
@@ -0,0 +1,165 @@
+/**
+ * Size Probability
+ * Per-size likelihoods from uncertain body-dimension estimates
+ *
+ * Each estimated dimension is treated as normally distributed around the formula value, with
+ * a standard deviation per measurement (how far the height/weight formulas typically miss),
+ * widened for builds the formulas fit less well and when gender is unknown; dimensions that
+ * were tape-measured or narrowed by a reference garment carry their own, smaller error
+ * instead. A size's score is the product, over the guide's measurements, of the probability
+ * that the true dimension falls in that size's range; scores are normalized over the
+ * available sizes. The wearer's height is known, not estimated, so a guide's height range
+ * stays out of the product (scored at near-zero error it would outweigh every girth).
+ * Fit candidates shift each size by one: a size gives a fitted look when the person's
+ * regular size is one up.
+ */
+
+import type { SizeEntry, Measurement } from './sizeCollector'
+import type { BodyComposition } from './personAnalyzer'
+
+type FitType = 'tight' | 'regular' | 'comfortable'
+
+// Probability that a size is the person's size (regular) or gives a fit (per-fit lists)
+export interface SizeProbability {
+  size: string
+  probability: number
+}
+
+export interface SizeLikelihoods {
+  sizes: SizeProbability[]                       // Every available size, smallest first, summing to 1
+  fits: Record<FitType, SizeProbability[]>       // Sizes that give each fit, most likely first
+}
+
+// Standard deviation of each formula estimate (cm)
+const DIMENSION_ERROR_CM: Record<string, number> = {
+  chest: 4,
+  waist: 5,
+  hips: 4,
+  length: 3,
+  shoulder: 3,
+  inseam: 3,
+  thigh: 3
+}
+const DEFAULT_ERROR_CM = 4
+
+// Guide measurements that describe the wearer rather than a body dimension we estimate
+const WEARER_KEYS = ['height']
+
+// Standard deviation of a tape-measured dimension (cm), whatever the build
+export const MEASURED_ERROR_CM = 1.5
+
+// Error multipliers: soft builds and unknown gender are estimated less reliably
+const BODY_COMPOSITION_ERROR: Record<BodyComposition, number> = {
+  lean: 1.1,
+  average: 1,
+  soft: 1.3
+}
+const UNKNOWN_GENDER_ERROR = 1.25
+
+// Half-width around single-value measurements (matches the ±2cm of the hard size match)
+const VALUE_TOLERANCE_CM = 2
+
+// Floor per measurement so one far-off dimension cannot rule a size out on its own
+const MIN_MEASUREMENT_PROBABILITY = 1e-4
+
+// Shift from the person's regular size to the size that gives each fit
+const FIT_SHIFT: Record<FitType, number> = { tight: -1, regular: 0, comfortable: 1 }
+
+// Index of the size `shift` steps from entries[index], or -1 when there is none
+export type SizeShift = (index: number, shift: number) => number
+
+/**
+ * Standard deviation (cm) of a height/weight formula estimate
+ */
+export function getEstimateError(key: string, bodyComposition: BodyComposition = 'average', genderKnown = true): number {
+  const errorScale = BODY_COMPOSITION_ERROR[bodyComposition] * (genderKnown ? 1 : UNKNOWN_GENDER_ERROR)
+  return (DIMENSION_ERROR_CM[key] ?? DEFAULT_ERROR_CM) * errorScale
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+/**
+ * Probability that a dimension estimated at `estimate` ± `sigma` fits a size's measurement
+ * Length only needs the garment to be long enough; everything else needs to be in range.
+ */
+function probabilityInRange(estimate: number, sigma: number, measurement: Measurement, key: string): number {
+  const cdf = (x: number) => normalCdf((x - estimate) / sigma)
+  if (key === 'length') {
+    const garmentLength = measurement.min ?? measurement.value
+    return garmentLength === undefined ? 1 : cdf(garmentLength)
+  }
+  if (measurement.min !== undefined && measurement.max !== undefined) {
+    return cdf(measurement.max) - cdf(measurement.min)
+  }
+  if (measurement.value !== undefined) {
+    return cdf(measurement.value + VALUE_TOLERANCE_CM) - cdf(measurement.value - VALUE_TOLERANCE_CM)
+  }
+  return 1
+}
+
+/**
+ * Likelihood of every size and of each fit
+ *
+ * @param estimates - Estimated body dimensions in cm, keyed like the size guide's measurements
+ * @param entries - Size guide entries (cm), smallest first
+ * @param bodyComposition - Build the estimates assumed
+ * @param genderKnown - Whether gender-specific formulas were used
+ * @param errors - Standard deviation (cm) of estimates that did not come from the formulas alone
+ * @param shiftSize - Neighbouring size for the fit candidates; defaults to the next entry
+ */
+export function estimateSizeLikelihoods(
+  estimates: Record<string, number>,
+  entries: SizeEntry[],
+  bodyComposition: BodyComposition = 'average',
+  genderKnown = true,
+  errors: Record<string, number> = {},
+  shiftSize: SizeShift = (index, shift) => index + shift
+): SizeLikelihoods {
+  const scores = entries.map(entry => {
+    let score = 1
+    for (const [key, estimate] of Object.entries(estimates)) {
+      if (WEARER_KEYS.includes(key)) continue
+      const measurement = entry.measurements[key] as Measurement | undefined
+      if (!measurement) continue
+      const sigma = errors[key] ?? getEstimateError(key, bodyComposition, genderKnown)
+      score *= Math.max(probabilityInRange(estimate, sigma, measurement, key), MIN_MEASUREMENT_PROBABILITY)
+    }
+    return score
+  })
+
+  const total = scores.reduce((sum, score) => sum + score, 0)
+  const sizes = entries.map((entry, i) => ({
+    size: entry.label,
+    probability: total > 0 ? scores[i] / total : 1 / entries.length
+  }))
+
+  // Sizes several regular sizes shift onto (e.g. two inseams sharing one) add up
+  const fitCandidates = (fit: FitType): SizeProbability[] => {
+    const totals = new Map<string, number>()
+    sizes.forEach((size, i) => {
+      const target = sizes[shiftSize(i, FIT_SHIFT[fit])]
+      if (target) totals.set(target.size, (totals.get(target.size) || 0) + size.probability)
+    })
+    return [...totals.entries()]
+      .map(([size, probability]) => ({ size, probability }))
+      .sort((a, b) => b.probability - a.probability)
+  }
+
+  return {
+    sizes,
+    fits: {
+      tight: fitCandidates('tight'),
+      regular: fitCandidates('regular'),
+      comfortable: fitCandidates('comfortable')
+    }
+  }
+}
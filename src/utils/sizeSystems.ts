@@ -0,0 +1,239 @@
+/**
+ * Size Systems
+ * Size normalization, ordering and brand conversions, configured by data/sizeSystems.json
+ *
+ * Every size label is first normalized to a canonical form ("x-large" → "XL", "youth m" → "YM",
+ * "2X" → "2XL"). Each size system (women's numeric, alpha letters with 1X plus, youth) lists
+ * its canonical sizes smallest to largest; systems are ordered in the file the way a mixed
+ * size list should sort. Bottoms labeled waist × inseam ("32x30", "W32 L30") normalize to
+ * "32x30" and sort by waist, then inseam. Tall, petite and big letter sizes ("XLT", "PS",
+ * "2XLB", "L Tall") normalize to one label per fit variant and sort by variant, then by
+ * their base letter size. Brand mappings convert a brand's numeric sizes to letters and
+ * back (lululemon women's 0-20 ↔ XXXS-2XL).
+ */
+
+import sizeSystemData from '../data/sizeSystems.json'
+
+export type SizeSystemId = 'numeric_women' | 'alpha' | 'youth' | 'waist_inseam'
+
+// Cut of a size line: regular, or a tall / petite / big line labeled with a variant letter
+export type FitVariant = 'regular' | 'tall' | 'petite' | 'big'
+
+interface SizeSystem {
+  id: Exclude<SizeSystemId, 'waist_inseam'>
+  description?: string
+  order: string[]
+}
+
+interface FitVariantLabels {
+  id: Exclude<FitVariant, 'regular'>
+  description?: string
+  labelPatterns: string[]  // Each captures the base letter size
+  labelFormat: string      // Canonical label, "{size}" replaced by the base size
+}
+
+interface BrandSizeMapping {
+  brand: string
+  gender: string
+  source?: string
+  toLetter: Record<string, string>    // Brand numeric size → canonical letter size
+  fromLetter: Record<string, string>  // Canonical letter size → smallest brand numeric size
+}
+
+interface SizeSystemRegistry {
+  systems: SizeSystem[]
+  waistInseam: { description?: string; labelPattern: string }
+  fitVariants: FitVariantLabels[]
+  aliases: Record<string, string>     // Lowercase label → canonical size
+  brandMappings: BrandSizeMapping[]
+}
+
+// Waist and inseam in inches
+export interface WaistInseam {
+  waist: number
+  inseam: number
+}
+
+// Waist × inseam sizes an item is sold in
+export interface WaistInseamGrid {
+  waists: number[]                // Inches, smallest first
+  inseams: number[]               // Inches, shortest first
+  labels: string[]                // Canonical labels ("32x30") that are actually available
+}
+
+const registry = sizeSystemData as unknown as SizeSystemRegistry
+
+// Base sizes tall, petite and big labels are built on
+const ALPHA_ORDER = registry.systems.find(system => system.id === 'alpha')?.order || []
+
+const WAIST_INSEAM_PATTERN = new RegExp(registry.waistInseam.labelPattern, 'i')
+
+const FIT_VARIANT_PATTERNS = registry.fitVariants.map(variant => ({
+  ...variant,
+  patterns: variant.labelPatterns.map(pattern => new RegExp(pattern, 'i'))
+}))
+
+/**
+ * Waist and inseam from a label like "32x30", "32/30" or "W32 L30" (null for other labels)
+ */
+export function parseWaistInseam(size: string): WaistInseam | null {
+  const match = size.toLowerCase().replace(/\s+/g, '').match(WAIST_INSEAM_PATTERN)
+  return match ? { waist: Number(match[1]), inseam: Number(match[2]) } : null
+}
+
+/**
+ * Canonical waist × inseam label
+ */
+export function formatWaistInseam({ waist, inseam }: WaistInseam): string {
+  return `${waist}x${inseam}`
+}
+
+function aliasKey(size: string): string {
+  return size.toLowerCase().trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * Base letter size and fit variant of a tall / petite / big label ("XLT" → XL, tall),
+ * or null for regular and unrecognized labels
+ */
+export function parseFitVariantSize(size: string): { base: string; variant: Exclude<FitVariant, 'regular'> } | null {
+  const key = aliasKey(size)
+  if (registry.aliases[key]) return null
+  for (const variant of FIT_VARIANT_PATTERNS) {
+    for (const pattern of variant.patterns) {
+      const base = registry.aliases[aliasKey(key.match(pattern)?.[1] || '')]
+      if (base && ALPHA_ORDER.includes(base)) return { base, variant: variant.id }
+    }
+  }
+  return null
+}
+
+/**
+ * Canonical label of a letter size in a fit variant ("XL" + tall → "XLT")
+ */
+export function formatFitVariantSize(size: string, variant: FitVariant): string {
+  const base = parseFitVariantSize(size)?.base || normalizeSize(size)
+  const format = registry.fitVariants.find(v => v.id === variant)?.labelFormat
+  return format ? format.replace('{size}', base) : base
+}
+
+/**
+ * Fit variant a size label belongs to ('regular' for everything that is not tall, petite or big)
+ */
+export function getFitVariant(size: string): FitVariant {
+  return parseFitVariantSize(size)?.variant || 'regular'
+}
+
+/**
+ * Canonical form of a size label (unknown labels are upper-cased and trimmed)
+ */
+export function normalizeSize(size: string): string {
+  const waistInseam = parseWaistInseam(size)
+  if (waistInseam) return formatWaistInseam(waistInseam)
+  const alias = registry.aliases[aliasKey(size)]
+  if (alias) return alias
+  const fitVariant = parseFitVariantSize(size)
+  if (fitVariant) return formatFitVariantSize(fitVariant.base, fitVariant.variant)
+  return size.toUpperCase().trim()
+}
+
+/**
+ * Grid of waists and inseams when every size is a waist × inseam label, else null
+ */
+export function parseWaistInseamGrid(sizes: string[]): WaistInseamGrid | null {
+  const parsed = sizes.map(parseWaistInseam)
+  if (parsed.length === 0 || parsed.some(p => p === null)) return null
+
+  const dims = parsed as WaistInseam[]
+  const unique = (values: number[]) => [...new Set(values)].sort((a, b) => a - b)
+  return {
+    waists: unique(dims.map(d => d.waist)),
+    inseams: unique(dims.map(d => d.inseam)),
+    labels: [...new Set(dims.map(formatWaistInseam))]
+  }
+}
+
+/**
+ * Size system a label belongs to, or null for one-size / unrecognized labels
+ */
+export function getSizeSystem(size: string): SizeSystemId | null {
+  if (parseWaistInseam(size)) return 'waist_inseam'
+  const normalized = parseFitVariantSize(size)?.base || normalizeSize(size)
+  return registry.systems.find(system => system.order.includes(normalized))?.id ?? null
+}
+
+/**
+ * Canonical sizes of one system, smallest first
+ */
+export function getSizeOrder(systemId: SizeSystemId = 'alpha'): string[] {
+  return [...(registry.systems.find(system => system.id === systemId)?.order || [])]
+}
+
+/**
+ * Position of a size within its system's order (-1 when it is not in that system)
+ * Tall, petite and big sizes take the position of their base letter size.
+ */
+export function getSizeIndex(size: string, systemId: SizeSystemId = 'alpha'): number {
+  return getSizeOrder(systemId).indexOf(parseFitVariantSize(size)?.base || normalizeSize(size))
+}
+
+// Rank across all systems, in file order
+const OVERALL_ORDER = registry.systems.flatMap(system => system.order)
+
+/**
+ * Overall sort rank (-1 when unrecognized)
+ * Tall, petite and big sizes rank after the listed systems, one block per variant in file
+ * order; waist × inseam sizes rank after those.
+ */
+function getSizeRank(size: string): number {
+  const variantsStart = OVERALL_ORDER.length
+  const waistInseamStart = variantsStart * (registry.fitVariants.length + 1)
+  const waistInseam = parseWaistInseam(size)
+  if (waistInseam) return waistInseamStart + waistInseam.waist * 100 + waistInseam.inseam
+  const fitVariant = parseFitVariantSize(size)
+  if (fitVariant) {
+    const block = registry.fitVariants.findIndex(v => v.id === fitVariant.variant)
+    return variantsStart * (block + 1) + OVERALL_ORDER.indexOf(fitVariant.base)
+  }
+  return OVERALL_ORDER.indexOf(normalizeSize(size))
+}
+
+/**
+ * Sort comparator for mixed size lists; unrecognized sizes go last in their original order
+ */
+export function compareSizes(a: string, b: string): number {
+  const ia = getSizeRank(a)
+  const ib = getSizeRank(b)
+  if (ia === -1 && ib === -1) return 0
+  if (ia === -1) return 1
+  if (ib === -1) return -1
+  return ia - ib
+}
+
+function findBrandMapping(brand?: string, gender?: string): BrandSizeMapping | undefined {
+  const brandLower = brand?.toLowerCase()
+  const genderLower = gender?.toLowerCase()
+  return registry.brandMappings.find(mapping => mapping.brand === brandLower && mapping.gender === genderLower)
+}
+
+/**
+ * Letter size for a brand's numeric size (other sizes are just normalized)
+ */
+export function toLetterSize(size: string, brand?: string, gender?: string): string {
+  const normalized = normalizeSize(size)
+  return findBrandMapping(brand, gender)?.toLetter[normalized] || normalized
+}
+
+/**
+ * Size as the item labels it: a letter recommendation is shown as the brand's numeric size
+ * when the item is sold in numeric sizes, otherwise in canonical letter form
+ */
+export function toBrandSize(size: string, brand?: string, gender?: string, availableSizes?: string[]): string {
+  const normalized = normalizeSize(size)
+  const mapping = findBrandMapping(brand, gender)
+  if (!mapping) return normalized
+
+  const hasNumericSizes = availableSizes?.some(s => getSizeSystem(s) === 'numeric_women')
+  if (!hasNumericSizes) return normalized
+  return mapping.fromLetter[normalized] || normalized
+}
@@ -0,0 +1,206 @@
+/**
+ * Try-On Image Cache
+ * IndexedDB-backed cache of generated try-on images so a reload doesn't regenerate them
+ *
+ * Entries are keyed by a hash of the photo, the product id, the fit type, the provider, a
+ * hash of the prompt text and (when drawn) a hash of the garment mask, so any change to
+ * the photo, mask, size recommendation or prompt template misses the cache. Images are stored
+ * before watermarking; tryOnService watermarks on read, so a new co-brand logo or watermark
+ * layout applies to cached images too. The store is capped by entry count and total size;
+ * the least recently used entries are evicted first.
+ */
+
+import type { FitType } from './tryOnService'
+
+const DB_NAME = 'closai-tryon-cache'
+const DB_VERSION = 1
+const STORE_NAME = 'images'
+
+// Key prefix for un-watermarked entries; older keys (watermarked images) never match
+const KEY_VERSION = 'v2'
+
+// Size limits (image size is approximated by data URL length)
+const MAX_ENTRIES = 60
+const MAX_BYTES = 60 * 1024 * 1024
+
+export interface TryOnCacheKeyParts {
+  photo: string     // Photo sent to the provider (data URL or base64)
+  itemId: string
+  fit: FitType
+  provider: string  // Provider name, so mock results never stand in for real ones
+  prompt: string    // Full prompt text
+  mask?: string     // Garment mask (data URL), when one was drawn
+}
+
+interface CacheEntry {
+  key: string
+  imageDataUrl: string
+  analysisText?: string
+  bytes: number
+  createdAt: number
+  lastAccessed: number
+}
+
+export interface CachedTryOnImage {
+  imageDataUrl: string
+  analysisText?: string
+  createdAt?: number  // When the image was generated (set on lookup)
+}
+
+/**
+ * Hex SHA-256 of a string
+ */
+export async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/**
+ * Persistent LRU cache of try-on images
+ * Every method fails soft: if IndexedDB is unavailable (private mode, quota, old browser)
+ * lookups miss and writes are dropped, and generation carries on as before.
+ */
+export class TryOnImageCache {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB not available'))
+          return
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+          store.createIndex('lastAccessed', 'lastAccessed')
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      // Let a later call try again after a failed open
+      this.dbPromise.catch(() => { this.dbPromise = null })
+    }
+    return this.dbPromise
+  }
+
+  /**
+   * Build the cache key for a generation request
+   */
+  async buildKey(parts: TryOnCacheKeyParts): Promise<string> {
+    const [photoHash, promptHash, maskHash] = await Promise.all([
+      sha256(parts.photo),
+      sha256(parts.prompt),
+      parts.mask ? sha256(parts.mask) : Promise.resolve(null)
+    ])
+    const key = [KEY_VERSION, photoHash, parts.itemId, parts.fit, parts.provider, promptHash]
+    if (maskHash) key.push(maskHash)
+    return key.join(':')
+  }
+
+  /**
+   * Look up a cached image, marking it as recently used
+   */
+  async get(key: string): Promise<CachedTryOnImage | null> {
+    try {
+      const db = await this.openDb()
+      const tx = db.transaction(STORE_NAME, 'readwrite')
+      const store = tx.objectStore(STORE_NAME)
+      const entry = await requestToPromise<CacheEntry | undefined>(store.get(key))
+      if (!entry) return null
+
+      entry.lastAccessed = Date.now()
+      store.put(entry)
+      await transactionDone(tx)
+      return { imageDataUrl: entry.imageDataUrl, analysisText: entry.analysisText, createdAt: entry.createdAt }
+    } catch (err) {
+      console.warn('[TryOnCache] Lookup failed:', err)
+      return null
+    }
+  }
+
+  /**
+   * Store an image, then evict least recently used entries over the limits
+   */
+  async set(key: string, image: CachedTryOnImage): Promise<void> {
+    try {
+      const db = await this.openDb()
+      const now = Date.now()
+      const entry: CacheEntry = {
+        key,
+        imageDataUrl: image.imageDataUrl,
+        analysisText: image.analysisText,
+        bytes: image.imageDataUrl.length,
+        createdAt: now,
+        lastAccessed: now
+      }
+      const tx = db.transaction(STORE_NAME, 'readwrite')
+      tx.objectStore(STORE_NAME).put(entry)
+      await transactionDone(tx)
+      await this.evict(db)
+    } catch (err) {
+      console.warn('[TryOnCache] Write failed:', err)
+    }
+  }
+
+  /**
+   * Remove every cached image
+   */
+  async clear(): Promise<void> {
+    try {
+      const db = await this.openDb()
+      const tx = db.transaction(STORE_NAME, 'readwrite')
+      tx.objectStore(STORE_NAME).clear()
+      await transactionDone(tx)
+    } catch (err) {
+      console.warn('[TryOnCache] Clear failed:', err)
+    }
+  }
+
+  private async evict(db: IDBDatabase): Promise<void> {
+    const tx = db.transaction(STORE_NAME, 'readwrite')
+    const store = tx.objectStore(STORE_NAME)
+    // Oldest access first
+    const entries = await requestToPromise<CacheEntry[]>(store.index('lastAccessed').getAll())
+
+    let count = entries.length
+    let bytes = entries.reduce((sum, e) => sum + e.bytes, 0)
+    for (const entry of entries) {
+      if (count <= MAX_ENTRIES && bytes <= MAX_BYTES) break
+      store.delete(entry.key)
+      count--
+      bytes -= entry.bytes
+    }
+    await transactionDone(tx)
+  }
+}
+
+// Singleton instance
+let cacheInstance: TryOnImageCache | null = null
+
+/**
+ * Get the try-on image cache instance
+ */
+export function getTryOnImageCache(): TryOnImageCache {
+  if (!cacheInstance) {
+    cacheInstance = new TryOnImageCache()
+  }
+  return cacheInstance
+}
@@ -0,0 +1,76 @@
+/**
+ * Try-On Provider
+ * Abstraction over the image-generation backend used by tryOnService
+ *
+ * A provider builds and sends the generation request, detects content-filter blocks,
+ * and parses the generated image out of its raw response. The active provider is
+ * Gemini (via the Duke backend) unless ?tryon=mock is in the URL, which switches to
+ * the offline compositing provider so the results flow runs without network.
+ */
+
+import type { FitType } from './tryOnService'
+import type { TryOnFailureKind } from './tryOnRetry'
+import { geminiTryOnProvider } from './geminiTryOnProvider'
+import { mockTryOnProvider } from './mockTryOnProvider'
+
+// Where a garment is worn
+export type GarmentCategory = 'top' | 'bottom'
+
+// Everything a provider needs to generate one try-on image
+export interface TryOnRequest {
+  avatarBase64: string                  // Person photo, already cropped to a supported aspect ratio
+  clothingBase64Images: string[]        // Garment product images (one, or top + bottom for an outfit)
+  prompt: string
+  aspectRatio: string                   // e.g. '3:4'
+  keyIndex: number                      // Backend API key slot
+  fitType: FitType
+  garmentCategories: GarmentCategory[]  // Category of each clothing image, same order
+  maskBase64?: string                   // Editable region of the person photo (white), same size as avatarBase64
+}
+
+// Image (and optional model commentary) parsed from a provider response
+export interface ParsedTryOnResponse {
+  imageDataUrl: string | null
+  analysisText?: string
+}
+
+// Content-filter outcomes a provider can report
+export type ContentBlock = Extract<TryOnFailureKind, 'prohibited_content' | 'image_other'>
+
+export interface TryOnProvider {
+  readonly name: string
+  /** Whether send() forwards maskBase64 to the backend (the result is masked client-side either way) */
+  readonly supportsMask: boolean
+  /** Build and send the request; resolves with the provider's raw response body, throws TryOnError on HTTP errors */
+  send(request: TryOnRequest, signal: AbortSignal): Promise<unknown>
+  /** Content-filter block in the raw response, or null if not blocked */
+  detectContentBlock(response: unknown): ContentBlock | null
+  /** Extract the generated image from the raw response */
+  parseResponse(response: unknown): ParsedTryOnResponse
+}
+
+const PROVIDERS: Record<string, TryOnProvider> = {
+  [geminiTryOnProvider.name]: geminiTryOnProvider,
+  [mockTryOnProvider.name]: mockTryOnProvider
+}
+
+// Provider override set in code (takes priority over the URL parameter)
+let providerOverride: TryOnProvider | null = null
+
+/**
+ * Get the active try-on provider
+ */
+export function getTryOnProvider(): TryOnProvider {
+  if (providerOverride) return providerOverride
+
+  const urlParams = new URLSearchParams(window.location.search)
+  const requested = urlParams.get('tryon')
+  return (requested && PROVIDERS[requested]) || geminiTryOnProvider
+}
+
+/**
+ * Replace the active provider (pass null to go back to URL-based selection)
+ */
+export function setTryOnProvider(provider: TryOnProvider | null): void {
+  providerOverride = provider
+}
@@ -0,0 +1,229 @@
+/**
+ * Try-On Quality Checks
+ * Client-side QA pass on a generated try-on image
+ *
+ * Compares the output against the (cropped) input photo and the product image:
+ *   - background: the photo's outer border should be unchanged
+ *   - face region: the head area (top center of the frame) should be unchanged
+ *   - garment color: the dominant color in the garment area should match the product's
+ * Back views skip the face check (the person is seen from behind). An open jacket layered over
+ * the person's own top is sampled on its side panels, since the center shows their shirt.
+ * All comparisons run on small downsampled copies so a check takes a few milliseconds.
+ */
+
+import type { GarmentCategory } from './tryOnProvider'
+import type { TryOnView } from './tryOnService'
+
+// Thresholds: a result below a similarity minimum (or above the color maximum) fails that check
+export const QUALITY_THRESHOLDS = {
+  backgroundMin: 0.82,  // 0-1, 1 = identical border
+  faceMin: 0.78,        // 0-1, 1 = identical head region
+  colorDeltaMax: 30     // CIE76 ΔE between product and rendered garment color
+}
+
+// Size of the downsampled copies compared (aspect ratio is preserved by the caller's crop)
+const SAMPLE_WIDTH = 48
+const SAMPLE_HEIGHT = 64
+
+// Fraction of the frame treated as background on each edge
+const BORDER_FRACTION = 0.12
+
+// Head region as fractions of the frame (x0, y0, x1, y1) for a centered full-body photo
+const FACE_REGION = [0.35, 0.04, 0.65, 0.26] as const
+
+// Garment region in the output, by category (x0, y0, x1, y1)
+const GARMENT_REGION: Record<GarmentCategory, readonly [number, number, number, number]> = {
+  top: [0.35, 0.32, 0.65, 0.5],
+  bottom: [0.38, 0.62, 0.62, 0.82]
+}
+
+// Jacket panels either side of the opening, for an open layered top (x0, y0, x1, y1)
+const OPEN_LAYER_REGIONS = [
+  [0.26, 0.32, 0.38, 0.5],
+  [0.62, 0.32, 0.74, 0.5]
+] as const
+
+// Color quantization step for dominant-color buckets
+const COLOR_BUCKET = 32
+
+export type QualityCheck = 'background' | 'face' | 'garment_color'
+
+export interface TryOnQualityReport {
+  backgroundSimilarity: number
+  faceSimilarity: number | null  // null when the check does not apply (back view)
+  colorDeltas: number[]          // One per garment, same order as the garment images
+  failedChecks: QualityCheck[]
+  passed: boolean
+  score: number                  // 0-1 overall, used to pick the best of several attempts
+}
+
+export interface QualityInput {
+  resultImage: string            // Generated image (data URL)
+  personImage: string            // Photo sent to the provider (data URL)
+  garmentImages: string[]        // Product images (data URLs)
+  garmentCategories: GarmentCategory[]
+  view?: TryOnView               // Defaults to 'front'
+  openLayer?: boolean            // The top is worn open over the person's own top
+}
+
+type Region = readonly [number, number, number, number]
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error('Could not load image'))
+    img.src = src
+  })
+}
+
+/**
+ * Downsample an image to SAMPLE_WIDTH x SAMPLE_HEIGHT RGBA pixels
+ */
+async function samplePixels(src: string): Promise<Uint8ClampedArray> {
+  const img = await loadImage(src)
+  const canvas = document.createElement('canvas')
+  canvas.width = SAMPLE_WIDTH
+  canvas.height = SAMPLE_HEIGHT
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Failed to get canvas context')
+
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(img, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT)
+  return ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data
+}
+
+function inRegion(x: number, y: number, [x0, y0, x1, y1]: Region): boolean {
+  const fx = x / SAMPLE_WIDTH
+  const fy = y / SAMPLE_HEIGHT
+  return fx >= x0 && fx < x1 && fy >= y0 && fy < y1
+}
+
+function isBorder(x: number, y: number): boolean {
+  const fx = x / SAMPLE_WIDTH
+  const fy = y / SAMPLE_HEIGHT
+  return fx < BORDER_FRACTION || fx >= 1 - BORDER_FRACTION || fy < BORDER_FRACTION
+}
+
+/**
+ * 1 - mean absolute RGB difference (normalized) over the pixels a predicate selects
+ */
+function similarity(a: Uint8ClampedArray, b: Uint8ClampedArray, include: (x: number, y: number) => boolean): number {
+  let total = 0
+  let count = 0
+  for (let y = 0; y < SAMPLE_HEIGHT; y++) {
+    for (let x = 0; x < SAMPLE_WIDTH; x++) {
+      if (!include(x, y)) continue
+      const i = (y * SAMPLE_WIDTH + x) * 4
+      total += (Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2])) / 3
+      count++
+    }
+  }
+  return count === 0 ? 1 : 1 - total / count / 255
+}
+
+/**
+ * Most common color (bucket average) among the selected pixels
+ * Product shots sit on white, so near-white and transparent pixels are skipped when asked
+ */
+function dominantColor(
+  data: Uint8ClampedArray,
+  include: (x: number, y: number) => boolean,
+  skipWhite: boolean
+): [number, number, number] | null {
+  const buckets = new Map<number, { r: number; g: number; b: number; n: number }>()
+  for (let y = 0; y < SAMPLE_HEIGHT; y++) {
+    for (let x = 0; x < SAMPLE_WIDTH; x++) {
+      if (!include(x, y)) continue
+      const i = (y * SAMPLE_WIDTH + x) * 4
+      const [r, g, b, a] = [data[i], data[i + 1], data[i + 2], data[i + 3]]
+      if (a < 128) continue
+      if (skipWhite && r > 235 && g > 235 && b > 235) continue
+
+      const key = Math.floor(r / COLOR_BUCKET) * 64 + Math.floor(g / COLOR_BUCKET) * 8 + Math.floor(b / COLOR_BUCKET)
+      const bucket = buckets.get(key) || { r: 0, g: 0, b: 0, n: 0 }
+      bucket.r += r
+      bucket.g += g
+      bucket.b += b
+      bucket.n++
+      buckets.set(key, bucket)
+    }
+  }
+
+  let best: { r: number; g: number; b: number; n: number } | null = null
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.n > best.n) best = bucket
+  }
+  return best ? [best.r / best.n, best.g / best.n, best.b / best.n] : null
+}
+
+/**
+ * sRGB (0-255) to CIE L*a*b* (D65)
+ */
+function rgbToLab([r, g, b]: [number, number, number]): [number, number, number] {
+  const linear = (c: number) => {
+    const v = c / 255
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4
+  }
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)]
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116)
+  const [fx, fy, fz] = [f(x), f(y), f(z)]
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+function deltaE(a: [number, number, number], b: [number, number, number]): number {
+  const [l1, a1, b1] = rgbToLab(a)
+  const [l2, a2, b2] = rgbToLab(b)
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2)
+}
+
+/**
+ * Score a generated try-on image against its inputs
+ */
+export async function assessTryOnQuality(input: QualityInput): Promise<TryOnQualityReport> {
+  const [result, person, ...garments] = await Promise.all([
+    samplePixels(input.resultImage),
+    samplePixels(input.personImage),
+    ...input.garmentImages.map(samplePixels)
+  ])
+
+  const backgroundSimilarity = similarity(result, person, isBorder)
+  const faceSimilarity = input.view === 'back'
+    ? null
+    : similarity(result, person, (x, y) => inRegion(x, y, FACE_REGION))
+
+  const colorDeltas = garments.map((garment, i) => {
+    const productColor = dominantColor(garment, () => true, true)
+    const category = input.garmentCategories[i] ?? 'top'
+    const regions: readonly Region[] = category === 'top' && input.openLayer && input.view !== 'back'
+      ? OPEN_LAYER_REGIONS
+      : [GARMENT_REGION[category]]
+    const renderedColor = dominantColor(result, (x, y) => regions.some(region => inRegion(x, y, region)), false)
+    if (!productColor || !renderedColor) return 0
+    return Math.round(deltaE(productColor, renderedColor) * 10) / 10
+  })
+
+  const failedChecks: QualityCheck[] = []
+  if (backgroundSimilarity < QUALITY_THRESHOLDS.backgroundMin) failedChecks.push('background')
+  if (faceSimilarity !== null && faceSimilarity < QUALITY_THRESHOLDS.faceMin) failedChecks.push('face')
+  if (colorDeltas.some(d => d > QUALITY_THRESHOLDS.colorDeltaMax)) failedChecks.push('garment_color')
+
+  // Equal weight per applicable check; color delta mapped onto 0-1 against twice the threshold
+  const worstDelta = Math.max(0, ...colorDeltas)
+  const colorScore = Math.max(0, 1 - worstDelta / (QUALITY_THRESHOLDS.colorDeltaMax * 2))
+  const checkScores = [backgroundSimilarity, colorScore, ...(faceSimilarity === null ? [] : [faceSimilarity])]
+  const score = checkScores.reduce((sum, s) => sum + s, 0) / checkScores.length
+
+  return {
+    backgroundSimilarity: Math.round(backgroundSimilarity * 1000) / 1000,
+    faceSimilarity: faceSimilarity === null ? null : Math.round(faceSimilarity * 1000) / 1000,
+    colorDeltas,
+    failedChecks,
+    passed: failedChecks.length === 0,
+    score: Math.round(score * 1000) / 1000
+  }
+}
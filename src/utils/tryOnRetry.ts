@@ -0,0 +1,194 @@
+/**
+ * Try-On Retry Policy
+ * Failure classification, exponential backoff with jitter, and a per-session circuit breaker
+ * for try-on generation requests
+ */
+
+// Why a try-on attempt failed
+export type TryOnFailureKind =
+  | 'timeout'             // No response within the per-attempt timeout
+  | 'network'             // Request never reached the backend
+  | 'http_4xx'            // Backend rejected the request
+  | 'http_5xx'            // Backend or model error
+  | 'prohibited_content'  // Content filter: PROHIBITED_CONTENT
+  | 'image_other'         // Content filter: IMAGE_OTHER
+  | 'no_image'            // Response came back without an image
+  | 'circuit_open'        // Backend marked unavailable after repeated failures
+  | 'cancelled'           // Job cancelled by the caller
+  | 'client'              // Local failure (photo processing, garment image download)
+
+// Structured failure returned to the results UI
+export interface TryOnFailure {
+  kind: TryOnFailureKind
+  message: string
+  status?: number   // HTTP status for http_4xx / http_5xx
+  attempts: number  // Attempts made before giving up
+  retryable: boolean
+}
+
+export class TryOnError extends Error {
+  kind: TryOnFailureKind
+  status?: number
+
+  constructor(kind: TryOnFailureKind, message: string, status?: number) {
+    super(message)
+    this.name = 'TryOnError'
+    this.kind = kind
+    this.status = status
+  }
+}
+
+// Backoff settings
+const BASE_DELAY_MS = 1_000
+const MAX_DELAY_MS = 15_000
+
+// Circuit breaker settings
+const FAILURE_THRESHOLD = 4       // Consecutive backend failures before opening
+const OPEN_DURATION_MS = 60_000   // How long the circuit stays open before a trial request
+
+// Failures that say the backend itself is unhealthy (content-filter blocks do not count)
+const BACKEND_FAILURES: TryOnFailureKind[] = ['timeout', 'network', 'http_5xx']
+
+/**
+ * Whether another attempt can help for this failure
+ * 429 (rate limited) is the only 4xx worth retrying
+ */
+export function isRetryable(kind: TryOnFailureKind, status?: number): boolean {
+  switch (kind) {
+    case 'http_4xx':
+      return status === 429
+    case 'circuit_open':
+    case 'cancelled':
+    case 'client':
+      return false
+    default:
+      return true
+  }
+}
+
+/**
+ * Map an HTTP status to a failure kind
+ */
+export function classifyHttpStatus(status: number): TryOnFailureKind {
+  return status >= 500 ? 'http_5xx' : 'http_4xx'
+}
+
+/**
+ * Classify an error thrown during an attempt
+ *
+ * @param err - The thrown error
+ * @param timedOut - The attempt's timeout fired
+ * @param cancelled - The caller cancelled the job
+ */
+export function classifyError(err: unknown, timedOut: boolean, cancelled: boolean): TryOnError {
+  if (cancelled) return new TryOnError('cancelled', 'Cancelled')
+  // A provider may report its aborted request as cancelled; the timeout is what aborted it
+  if (timedOut) return new TryOnError('timeout', 'Request timed out')
+  if (err instanceof TryOnError) return err
+  // fetch() rejects with TypeError when the request cannot be sent
+  if (err instanceof TypeError) return new TryOnError('network', err.message || 'Network error')
+  return new TryOnError('network', err instanceof Error ? err.message : 'Unknown error')
+}
+
+/**
+ * Delay before the given retry (attempt 1 = first retry): exponential backoff with full jitter
+ */
+export function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1))
+  return Math.round(Math.random() * ceiling)
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new TryOnError('cancelled', 'Cancelled'))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new TryOnError('cancelled', 'Cancelled'))
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Per-session circuit breaker
+ * Opens after FAILURE_THRESHOLD consecutive backend failures so a dead backend fails fast
+ * instead of spinning; after OPEN_DURATION_MS one trial request is let through (half-open).
+ */
+export class CircuitBreaker {
+  private consecutiveFailures: number = 0
+  private openedAt: number | null = null
+  private trialInFlight: boolean = false
+
+  /**
+   * Whether a request may be sent now
+   */
+  canRequest(): boolean {
+    if (this.openedAt === null) return true
+    if (Date.now() - this.openedAt < OPEN_DURATION_MS) return false
+    // Half-open: allow a single trial request
+    if (this.trialInFlight) return false
+    this.trialInFlight = true
+    return true
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+  }
+
+  recordFailure(kind: TryOnFailureKind): void {
+    if (!BACKEND_FAILURES.includes(kind)) {
+      // Backend answered; a half-open trial counts as proof of life
+      if (this.trialInFlight) this.recordSuccess()
+      return
+    }
+    this.consecutiveFailures++
+    this.trialInFlight = false
+    if (this.openedAt !== null || this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.openedAt = Date.now()
+    }
+  }
+
+  /**
+   * Milliseconds until the next trial request is allowed (0 when closed)
+   */
+  retryAfterMs(): number {
+    if (this.openedAt === null) return 0
+    return Math.max(0, OPEN_DURATION_MS - (Date.now() - this.openedAt))
+  }
+}
+
+/**
+ * User-facing text for a failed try-on, by failure kind
+ */
+export function describeTryOnFailure(failure: TryOnFailure): string {
+  switch (failure.kind) {
+    case 'prohibited_content':
+    case 'image_other':
+      return 'The image service declined this photo. Try again, or use a different photo.'
+    case 'circuit_open':
+      return 'The image service is having trouble right now. Try again in a minute.'
+    case 'timeout':
+    case 'network':
+      return 'Couldn\'t reach the image service. Check your connection and try again.'
+    case 'http_4xx':
+      return failure.status === 429
+        ? 'Too many requests right now. Try again in a moment.'
+        : 'The image service rejected this request.'
+    case 'client':
+      return 'Couldn\'t load the photo or product image.'
+    default:
+      return 'Couldn\'t generate this preview.'
+  }
+}
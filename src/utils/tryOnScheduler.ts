@@ -0,0 +1,202 @@
+/**
+ * Try-On Scheduler
+ * Single priority queue for every try-on job in the session
+ *
+ * Jobs run one at a time per backend API key slot. When a slot frees up, the next job is
+ * picked by what the shopper is looking at: the on-screen item and fit first, then the
+ * other fits of that item, then everything else in arrival order.
+ * Jobs can be cancelled through their AbortSignal while queued or running, and callers
+ * can subscribe to queue position / ETA updates.
+ */
+
+import type { FitType } from './tryOnService'
+import { TryOnError } from './tryOnRetry'
+
+// Number of backend API keys; one in-flight request per key
+const KEY_SLOTS = 3
+
+// ETA assumption until real job durations have been observed
+const DEFAULT_JOB_MS = 25_000
+
+// Running-average weight given to each newly completed job
+const DURATION_SMOOTHING = 0.3
+
+export interface TryOnJobOptions {
+  itemId: string
+  fit: FitType
+  signal?: AbortSignal
+}
+
+// Queue status for a job, as shown in the results carousel
+export interface TryOnJobStatus {
+  state: 'queued' | 'running'
+  position: number  // 0 = next to run (queued) or running
+  etaMs: number     // Estimated time until the image is ready
+}
+
+interface ScheduledJob {
+  id: number
+  itemId: string
+  fit: FitType
+  signal?: AbortSignal
+  run: (keyIndex: number, signal: AbortSignal) => Promise<unknown>
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+  controller: AbortController
+  keyIndex: number | null
+  startedAt: number | null
+}
+
+export class TryOnScheduler {
+  private queued: ScheduledJob[] = []
+  private running: ScheduledJob[] = []
+  private freeSlots: number[] = Array.from({ length: KEY_SLOTS }, (_, i) => i)
+  private nextId: number = 0
+  private focus: { itemId: string | null; fit: FitType | null } = { itemId: null, fit: null }
+  private avgJobMs: number = DEFAULT_JOB_MS
+  private listeners = new Set<() => void>()
+
+  /**
+   * Queue a job. `run` receives the API key slot and an AbortSignal that fires
+   * when the caller's signal aborts.
+   */
+  schedule<T>(options: TryOnJobOptions, run: (keyIndex: number, signal: AbortSignal) => Promise<T>): Promise<T> {
+    if (options.signal?.aborted) return Promise.reject(new TryOnError('cancelled', 'Try-on job cancelled'))
+
+    return new Promise<T>((resolve, reject) => {
+      const job: ScheduledJob = {
+        id: this.nextId++,
+        itemId: options.itemId,
+        fit: options.fit,
+        signal: options.signal,
+        run,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        controller: new AbortController(),
+        keyIndex: null,
+        startedAt: null
+      }
+
+      options.signal?.addEventListener('abort', () => this.cancelJob(job), { once: true })
+
+      this.queued.push(job)
+      this.pump()
+    })
+  }
+
+  /**
+   * Tell the scheduler which item card and fit are on screen
+   */
+  setFocus(itemId: string | null, fit: FitType | null): void {
+    if (this.focus.itemId === itemId && this.focus.fit === fit) return
+    this.focus = { itemId, fit }
+    this.notify()
+  }
+
+  /**
+   * Current queue status for an item's fit, or null if nothing is scheduled
+   */
+  getStatus(itemId: string, fit: FitType): TryOnJobStatus | null {
+    const runningJob = this.running.find(j => j.itemId === itemId && j.fit === fit)
+    if (runningJob) {
+      const elapsed = Date.now() - (runningJob.startedAt ?? Date.now())
+      return { state: 'running', position: 0, etaMs: Math.max(0, this.avgJobMs - elapsed) }
+    }
+
+    const ordered = this.orderedQueue()
+    const position = ordered.findIndex(j => j.itemId === itemId && j.fit === fit)
+    if (position === -1) return null
+
+    // Wait for a slot: running jobs finish first, then queued jobs ahead run KEY_SLOTS at a time
+    const remainingRunning = this.running.map(j => Math.max(0, this.avgJobMs - (Date.now() - (j.startedAt ?? Date.now()))))
+    const firstSlotFree = this.running.length < KEY_SLOTS ? 0 : Math.min(...remainingRunning)
+    const rounds = Math.floor(position / KEY_SLOTS)
+    return {
+      state: 'queued',
+      position,
+      etaMs: firstSlotFree + rounds * this.avgJobMs + this.avgJobMs
+    }
+  }
+
+  /**
+   * Subscribe to queue changes; returns an unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  private priority(job: ScheduledJob): number {
+    if (job.itemId !== this.focus.itemId) return 2
+    return job.fit === this.focus.fit ? 0 : 1
+  }
+
+  private orderedQueue(): ScheduledJob[] {
+    return [...this.queued].sort((a, b) => this.priority(a) - this.priority(b) || a.id - b.id)
+  }
+
+  private pump(): void {
+    while (this.freeSlots.length > 0 && this.queued.length > 0) {
+      const job = this.orderedQueue()[0]
+      this.queued = this.queued.filter(j => j !== job)
+      this.start(job, this.freeSlots.shift()!)
+    }
+    this.notify()
+  }
+
+  private start(job: ScheduledJob, keyIndex: number): void {
+    job.keyIndex = keyIndex
+    job.startedAt = Date.now()
+    this.running.push(job)
+
+    job.run(keyIndex, job.controller.signal)
+      .then(
+        value => {
+          this.recordDuration(Date.now() - job.startedAt!)
+          job.resolve(value)
+        },
+        err => job.reject(err)
+      )
+      .finally(() => this.release(job))
+  }
+
+  private release(job: ScheduledJob): void {
+    if (!this.running.includes(job)) return
+    this.running = this.running.filter(j => j !== job)
+    this.freeSlots.push(job.keyIndex!)
+    this.freeSlots.sort((a, b) => a - b)
+    this.pump()
+  }
+
+  private cancelJob(job: ScheduledJob): void {
+    if (this.queued.includes(job)) {
+      this.queued = this.queued.filter(j => j !== job)
+      job.reject(new TryOnError('cancelled', 'Try-on job cancelled'))
+      this.notify()
+    } else if (this.running.includes(job)) {
+      // The job's own run() rejects once it sees the abort; the slot is released then
+      job.controller.abort()
+    }
+  }
+
+  private recordDuration(ms: number): void {
+    this.avgJobMs = Math.round(this.avgJobMs * (1 - DURATION_SMOOTHING) + ms * DURATION_SMOOTHING)
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener()
+  }
+}
+
+// Singleton instance shared by every results section
+let schedulerInstance: TryOnScheduler | null = null
+
+/**
+ * Get or create the try-on scheduler instance
+ */
+export function getTryOnScheduler(): TryOnScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new TryOnScheduler()
+  }
+  return schedulerInstance
+}
@@ -4,7 +4,7 @@
  * Returns fully processed images ready for display
  */
 
-import { chooseWatermark, getWatermarkLogoPath } from './chooseWatermark'
+import { addWatermark } from './watermark'
 
 // Backend API endpoint
 const BACKEND_URL = 'https://closai-backend.vercel.app'
@@ -176,53 +176,6 @@ function generateFitPrompt(clothingInfo: ClothingInfo, _fitType: FitType): strin
 FIT:${fitDetail}`
 }
 
-/**
- * Add watermark to image and return as data URL
- * Automatically chooses white or black logo based on background brightness
- */
-async function addWatermark(imageSrc: string): Promise<string> {
-  // Determine which watermark color to use based on the TryIt logo region
-  const watermarkColor = await chooseWatermark(imageSrc)
-  const logoPath = getWatermarkLogoPath(watermarkColor)
-
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    img.crossOrigin = 'anonymous'
-    img.onload = () => {
-      const logo = new Image()
-      logo.crossOrigin = 'anonymous'
-      logo.onload = () => {
-        const canvas = document.createElement('canvas')
-        const ctx = canvas.getContext('2d')
-        if (!ctx) {
-          reject(new Error('Could not get canvas context'))
-          return
-        }
-
-        canvas.width = img.width
-        canvas.height = img.height
-        ctx.drawImage(img, 0, 0)
-
-        // Watermark settings: 100px height, 40px from right, 20px from bottom
-        const logoHeight = 100
-        const logoWidth = (logo.width / logo.height) * logoHeight
-        const logoX = canvas.width - logoWidth - 40
-        const logoY = canvas.height - logoHeight - 20
-
-        ctx.globalAlpha = 0.6
-        ctx.drawImage(logo, logoX, logoY, logoWidth, logoHeight)
-        ctx.globalAlpha = 1
-
-        resolve(canvas.toDataURL('image/png'))
-      }
-      logo.onerror = () => reject(new Error('Could not load logo'))
-      logo.src = logoPath
-    }
-    img.onerror = () => reject(new Error('Could not load image'))
-    img.src = imageSrc
-  })
-}
-
 /**
  * Generate a virtual try-on image with watermark
  * Returns fully processed image only when complete
@@ -1,6 +1,6 @@
 /**
  * Try-On Service
- * Generates virtual try-on images using the Duke Gemini try-on backend endpoint
+ * Generates virtual try-on images through the active try-on provider (Duke Gemini backend by default)
  *
  * Input:
  *   - avatarBase64: User's photo as base64
@@ -9,8 +9,17 @@
  *   - fitType: 'tight', 'regular', or 'comfortable'
  */
 
-import { chooseWatermark, getWatermarkLogoPath } from './chooseWatermark'
+import { track } from '@vercel/analytics'
+import type { ItemData } from '../App'
+import { addWatermark, type WatermarkOptions } from './watermark'
 import { isBottomType } from './sizeCollector'
+import { getTryOnProvider, type GarmentCategory } from './tryOnProvider'
+import { assessTryOnQuality, type TryOnQualityReport } from './tryOnQuality'
+import { getTryOnScheduler } from './tryOnScheduler'
+import { getTryOnImageCache, sha256 } from './tryOnCache'
+import { compositeWithMask, growMask } from './garmentMask'
+import { CircuitBreaker, TryOnError, backoffDelay, classifyError, isRetryable, sleep, type TryOnFailure } from './tryOnRetry'
+import { renderPrompt, type PromptCategory, type PromptTemplateRef, type PromptVariant, type RenderedPrompt, type TuckStyle } from './promptTemplates'
 
 // Backend API endpoint
 const BACKEND_URL = 'https://closai-backend.vercel.app'
@@ -18,23 +27,40 @@ const BACKEND_URL = 'https://closai-backend.vercel.app'
 // Fit type for try-on generation
 export type FitType = 'tight' | 'regular' | 'comfortable'
 
-// Per-key queue to prevent concurrent requests on the same API key
-// Key 0 = tight, Key 1 = regular, Key 2 = comfortable
-const keyQueues: Record<number, Promise<unknown>> = { 0: Promise.resolve(), 1: Promise.resolve(), 2: Promise.resolve() }
+// Camera angle: 'back' sends the rear product shot and shows the person from behind
+export type TryOnView = 'front' | 'back'
 
-function enqueueForKey<T>(keyIndex: number, fn: () => Promise<T>): Promise<T> {
-  const prev = keyQueues[keyIndex] || Promise.resolve()
-  const next = prev.then(fn, fn) // run fn even if previous failed
-  keyQueues[keyIndex] = next
-  return next
+// How outerwear is worn: on its own (replaces the top) or over the person's own top, open or closed
+export type LayeringMode = 'standalone' | 'layered_closed' | 'layered_open'
+
+// Jackets, fleeces, zips and other structured / outer garments
+const OUTERWEAR_PATTERN = /jacket|coat|blazer|hoodie|fleece|windbreaker|parka|vest|quarter.zip|half.zip|pullover|shell|anorak/
+
+// Retry settings per try-on job
+const MAX_ATTEMPTS = 6
+const TIMEOUT_MS = 35_000
+
+// Times a result that fails the quality checks is sent back through the queue
+const MAX_QUALITY_REQUEUES = 2
+
+// Mask growth (fraction of the photo's shorter side) for fits wider than the person's clothes
+const MASK_GROWTH = {
+  comfortable: 0.03,
+  layered: 0.05
 }
 
+// Shared across all jobs in the session so a dead backend fails fast everywhere
+const circuitBreaker = new CircuitBreaker()
+
 // Clothing item info
 export interface ClothingInfo {
   name: string
   type: string        // 'tops', 'bottoms'
   color: string
   fitSentence?: string  // Personalized fit description from fitDescriber
+  sizeLabel?: string    // Recommended size for this fit (display label, e.g. "M" or "8")
+  layering?: LayeringMode  // Outerwear only; defaults to 'standalone'
+  tuck?: TuckStyle         // How a top is worn with the pants; defaults to 'untucked'
 }
 
 // Try-on result
@@ -43,6 +69,12 @@ export interface TryOnResult {
   analysisText?: string
   success: boolean
   error?: string
+  failure?: TryOnFailure              // Structured failure when success is false
+  promptTemplate?: PromptTemplateRef  // Template id/version that produced the prompt
+  fromCache?: boolean                 // Served from the persistent image cache
+  quality?: TryOnQualityReport        // QA scores for the returned image (absent for cache hits)
+  promptHash?: string                 // SHA-256 of the prompt text, for export provenance
+  generatedAt?: number                // When the image was generated (ms since epoch)
 }
 
 /**
@@ -104,7 +136,7 @@ function getImageDimensions(dataUrl: string): Promise<{ width: number; height: n
 /**
  * Crop and resize image to target aspect ratio and fixed pixel size (center crop)
  */
-function cropAndResizeToTarget(dataUrl: string, targetRatio: string, targetWidth: number, targetHeight: number): Promise<string> {
+function cropAndResizeToTarget(dataUrl: string, targetRatio: string, targetWidth: number, targetHeight: number, mimeType: string = 'image/jpeg'): Promise<string> {
   return new Promise((resolve, reject) => {
     const img = new Image()
     img.onload = () => {
@@ -141,7 +173,7 @@ function cropAndResizeToTarget(dataUrl: string, targetRatio: string, targetWidth
       // Draw cropped region scaled to target size
       ctx.drawImage(img, offsetX, offsetY, cropWidth, cropHeight, 0, 0, targetWidth, targetHeight)
 
-      resolve(canvas.toDataURL('image/jpeg', 0.9))
+      resolve(canvas.toDataURL(mimeType, 0.9))
     }
     img.onerror = reject
     img.src = dataUrl
@@ -170,6 +202,16 @@ async function processUserImage(imageData: string): Promise<{ base64: string; as
   return { base64, aspectRatio }
 }
 
+/**
+ * Process the garment mask the same way as the photo (same crop and size), kept as PNG
+ */
+async function processMaskImage(maskDataUrl: string): Promise<string> {
+  const { width, height } = await getImageDimensions(maskDataUrl)
+  const { ratio, width: targetWidth, height: targetHeight } = findClosestAspectRatio(width, height)
+  const processedDataUrl = await cropAndResizeToTarget(maskDataUrl, ratio, targetWidth, targetHeight, 'image/png')
+  return extractBase64(processedDataUrl)
+}
+
 /**
  * Download image from URL and convert to base64
  * Uses backend proxy for Duke store images to avoid CORS issues
@@ -208,175 +250,128 @@ async function imageUrlToBase64(imageUrl: string): Promise<string> {
 }
 
 /**
- * Add watermark to image and return as data URL
- * Automatically chooses white or black logo based on background brightness
+ * Build the size-guide fit detail for the prompt
+ * Combines the recommended size label with the per-measurement tiers from fitDescriber
+ * (e.g. "chest slightly loose. shoulders normal."). Returns '' when neither is known.
  */
-async function addWatermark(imageSrc: string): Promise<string> {
-  // Determine which watermark color to use based on the TryIt logo region
-  const watermarkColor = await chooseWatermark(imageSrc)
-  const logoPath = getWatermarkLogoPath(watermarkColor)
-
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    img.crossOrigin = 'anonymous'
-    img.onload = () => {
-      const logo = new Image()
-      logo.crossOrigin = 'anonymous'
-      logo.onload = () => {
-        const canvas = document.createElement('canvas')
-        const ctx = canvas.getContext('2d')
-        if (!ctx) {
-          reject(new Error('Could not get canvas context'))
-          return
-        }
-
-        canvas.width = img.width
-        canvas.height = img.height
-        ctx.drawImage(img, 0, 0)
-
-        // Watermark settings: 100px height, 40px from right, 20px from bottom
-        const logoHeight = 100
-        const logoWidth = (logo.width / logo.height) * logoHeight
-        const logoX = canvas.width - logoWidth - 40
-        const logoY = canvas.height - logoHeight - 20
-
-        ctx.globalAlpha = 0.6
-        ctx.drawImage(logo, logoX, logoY, logoWidth, logoHeight)
-        ctx.globalAlpha = 1
+function describeSizeFit(clothingInfo: ClothingInfo): string {
+  const parts: string[] = []
+  if (clothingInfo.sizeLabel) {
+    parts.push(`The person is wearing size ${clothingInfo.sizeLabel}.`)
+  }
+  if (clothingInfo.fitSentence) {
+    parts.push(`Measured fit on this body: ${clothingInfo.fitSentence} Where this differs from the general fit description, the measured fit wins.`)
+  }
+  return parts.join(' ')
+}
 
-        resolve(canvas.toDataURL('image/png'))
-      }
-      logo.onerror = () => reject(new Error('Could not load logo'))
-      logo.src = logoPath
-    }
-    img.onerror = () => reject(new Error('Could not load image'))
-    img.src = imageSrc
-  })
+/**
+ * Whether an item is outerwear that can be layered over the person's own top
+ */
+export function isOuterwear(clothingInfo: Pick<ClothingInfo, 'name' | 'type'>): boolean {
+  return !isBottomType(clothingInfo.type || '') && OUTERWEAR_PATTERN.test((clothingInfo.name || '').toLowerCase())
 }
 
 /**
  * Generate fit-specific prompt for try-on
+ * Picks the template by garment category (men's tops, women's tops, bottoms), the layered
+ * outerwear template when the item is worn over the person's own top, or the back-view
+ * template for a rear shot, and fills in the item details
  */
-function generateTryOnPrompt(clothingInfo: ClothingInfo, fitType: FitType, gender: string = 'unknown'): string {
+function generateTryOnPrompt(clothingInfo: ClothingInfo, fitType: FitType, gender: string = 'unknown', view: TryOnView = 'front'): RenderedPrompt {
   const itemType = clothingInfo.type || 'garment'
   const isTop = !isBottomType(itemType)
   const isMale = gender === 'male'
   const nameLC = (clothingInfo.name || '').toLowerCase()
-  const isStructured = /jacket|coat|blazer|hoodie|fleece|windbreaker|parka|vest|quarter.zip|half.zip|pullover|shell|anorak/.test(nameLC)
-
-  if (isTop && isMale) {
-    // ===== MEN'S TOPS — backend-style ALL CAPS command prompt =====
-    const itemName = clothingInfo.name || itemType
-    const itemColor = clothingInfo.color || ''
-
-    const base = `GENERATE A REALISTIC VIRTUAL TRY-ON IMAGE. You will receive 2 images: 1) Person/avatar, 2) Top clothing item (${itemName}). Show the person from the first image wearing the top from the second image. CRITICAL: You MUST generate and return a new image, not just text. FIRST STEP — STRIP THE PERSON BARE: Every single piece of upper body clothing is destroyed and erased. The original shirt, jacket, hoodie, sweater, undershirt, long sleeve, short sleeve, vest, layer — ALL of it is completely gone. Erase the color, the shape, the neckline, the sleeves, the graphics, every trace of original clothing. The person's upper body and arms are 100% bare skin — zero remaining fabric. SECOND STEP — DRESS FROM SCRATCH: Put ONLY the ${itemColor} ${itemName} from Image 2 directly onto bare skin. The ONLY fabric visible on the upper body and arms is the ${itemName} from Image 2. ARMS: The person's arms below the ${itemName}'s sleeve hem are 100% bare skin. The original sleeves have been fully erased. Only the ${itemName}'s own sleeves touch the arms. When Image 2 shows short sleeves, bare skin is visible from bicep to wrist — smooth, continuous, uninterrupted skin matching the person's skin tone. Only the ${itemName} from Image 2 exists on the upper body. The new garment hangs freely over the pants, not tucked in. PRESERVE EXACTLY: the person's face, facial expression, body shape, body size, chest size, belly size, body pose, body position, background, lighting, camera angle from Image 1. Zero body modification — no added chest volume, no added belly, no altered body shape. Color: pixel-accurate to Image 2 — exact hue, saturation, brightness.`
-
-    const quality = `Generate a high-resolution, sharp, detailed, photorealistic image with 85mm lens perspective and natural soft-box lighting matching the original. Keep the person in the exact same position, pose, and framing as the original avatar image. Do not crop, zoom, or reposition the person. Only replace the clothing for try-on while keeping everything else identical.`
-
-    switch (fitType) {
-      case 'tight': {
-        const fitDesc = isStructured
-          ? `The ${itemName} is two sizes too small. The zipper or buttons barely close — heavy pulling and visible gapping at the chest. Fabric stretched drum-tight across the torso with 0mm air gap. Sleeves end 50mm above the wrist, visibly too short. The torso section is far too narrow — sides pull tight enough to show rib outline. The silhouette is dramatically smaller than the person's frame.`
-          : `This man grabbed a shirt two sizes too small. 0mm air gap everywhere — the fabric is vacuum-sealed to his torso. 8-10 visible horizontal tension creases across the chest and upper back. The sleeves grip the upper arms like compression bands, stretched taut around the biceps with the arm shape fully visible through fabric. The shirt sides are plastered to the ribcage. Shoulder seams pulled 30mm inward past the natural shoulder bone. The belly and chest shape press through the fabric — every contour visible. Looks like an athletic compression shirt on a bigger man — obviously, unmistakably too small.`
-
-        return `${base} FIT: EXTREMELY TIGHT — TWO SIZES TOO SMALL. ${fitDesc} The garment length remains exactly as shown in Image 2 — tightness affects width only, not length. ${quality} Prohibitions: loose fabric, any air gap between fabric and skin, added chest/breast volume, added belly volume, altered body shape, layering, tucked-in shirt, color shift from Image 2, cropped shirt, shorter hemline than Image 2, original clothing visible on torso, original sleeves visible on arms, any fabric on arms beyond the ${itemName}'s own sleeves. Most critical: the tight fit is immediately obvious — fabric stretched taut with visible tension creases, and bare skin shows on arms beyond the garment's sleeve line.`
-      }
-      case 'comfortable': {
-        const comfortFit = isStructured
-          ? `The ${itemName} is visibly too big — two sizes too large. Shoulder seams drop 50mm past the natural shoulder bone. Sleeves extend 60mm past the wrists, bunching at the hands. Torso section is boxy and square with 80mm air gap on each side. The garment hangs like a tent — borrowed from someone much bigger. Zipper or front closure has 40mm of excessive overlap. The person is swimming in this ${itemName}.`
-          : `The shirt is two sizes too wide for this person's body. 80mm visible air gap between fabric and torso on each side — enough to fit a fist. Shoulder seams drop 50mm past the shoulder bone, hanging off the edge. Sleeves 40mm wider than the arms with visible bunching at the wrists. 6-8 deep vertical folds running down the front and back. The person's body shape is completely hidden — torso outline invisible under excess fabric. The shirt drapes like a box, not a garment. This looks obviously too big at first glance.`
-
-        return `${base} FIT: COMFORTABLE — OBVIOUSLY OVERSIZED, WIDER NOT LONGER. REMINDER: The person's original shirt has been completely removed. The person's torso is bare skin first, then the oversized ${itemName} from Image 2 goes directly on bare skin. The original shirt's color, neckline, sleeves, and graphics are fully erased — only the ${itemName} from Image 2 is on the upper body. ${comfortFit} The garment length remains exactly as shown in Image 2. The shirt is dramatically wider, not longer. ${quality} Keep the person the same size in frame — crop the garment hem at the frame edge rather than shrinking the person. Prohibitions: fitted fabric, fabric touching torso sides, fabric conforming to body shape, shrinking person, added chest/breast volume, added belly volume, altered body shape, tucked-in shirt, color shift from Image 2, dress-like length, shorter hemline than Image 2, longer hemline than Image 2, two shirts visible, original shirt color showing through, original neckline shape visible, original sleeves visible on arms, any fabric on arms beyond the ${itemName}'s own sleeves. Most critical: only one garment on the upper body — the ${itemName} from Image 2 on bare skin. The oversized fit is immediately obvious, and bare skin shows on arms beyond the garment's sleeve line.`
-      }
-      default: { // regular
-        const regularFit = isStructured
-          ? `Standard retail fit. The ${itemName} closes comfortably with no strain. Shoulder seams on the shoulder bone. Sleeves end at the wrist. 15mm space between torso and garment shell. Holds its structured shape without pulling or excess bulk.`
-          : `Standard retail fit. 15mm space between skin and fabric. Shoulder seams on the shoulder bone. Few natural creases at waist. Body shape suggested, not defined. Not clinging, not baggy.`
-
-        return `${base} FIT: REGULAR. ${regularFit} The garment length remains exactly as shown in Image 2. The sleeve style and length come only from Image 2. ${quality} Prohibitions: skin-tight fabric, oversized look, added chest/breast volume, added belly volume, altered body shape, layering, tucked-in shirt, color shift from Image 2, shorter hemline than Image 2, longer hemline than Image 2, original clothing visible on torso or collar, original sleeves visible on arms, any fabric on arms beyond the ${itemName}'s own sleeves.`
-      }
-    }
-  } else if (isTop) {
-    // ===== WOMEN'S TOPS — narrative-style prompt (proven working) =====
-    const first = `First: completely erase the person's original top — remove its color, its shape, its neckline, its sleeves, its graphics, everything. Imagine the person's bare upper body. Now dress them from scratch in the ${itemType} from Image 2. The new shirt's color, fit, neckline, sleeve style, graphics, and fabric all come exclusively from Image 2. Nothing from the original shirt carries over. The shirt hangs freely over the pants with the full hem visible.`
-    const style = `Style: Photorealistic, 85mm lens, natural soft-box lighting matching Image 1, background identical to Image 1.`
-    const sleeves = `Sleeves: The sleeves are exactly as shown in Image 2. Completely ignore the sleeve style, sleeve length, and sleeve type from Image 1. If Image 2 shows short sleeves, the person wears short sleeves. If Image 2 shows long sleeves, the person wears long sleeves.`
-    const sharedProhibitions = `any original upper body clothing visible, jacket, hoodie, sweater, layering, disproportionate body parts, tucked-in shirt, any part of shirt tucked into pants, sleeves from Image 1, blending original shirt with new garment, original shirt color showing through, original shirt neckline shape, original shirt graphics visible, partial replacement of original shirt, color shift from Image 2`
-
-    switch (fitType) {
-      case 'tight': {
-        const fitDesc = isStructured
-          ? `Fit: The ${nameLC} is one size too small. The zipper or buttons strain to close. The garment cannot fully close at the chest — visible pulling and gapping. Sleeves end above the wrist, too short for the arms. The torso section is visibly too narrow — the sides pull tight and restrict movement. The overall silhouette is noticeably smaller than the person's frame.`
-          : `Fit: Only the width changes — the fabric is stretched taut against the skin with 0mm air gap. The shape of the shoulders and hip bones is visible pressing through the material. Zero wrinkles, zero folds, zero bunching. Chest area lays flat and smooth. The garment is tight in width only. The garment length remains exactly as shown in Image 2.`
-
-        return `${first} Virtual try-on. The person in Image 1 is wearing the ${itemType} from Image 2. ${style} Subject: The exact same person from Image 1 — identical face, body shape, body size, chest size, belly size, skin tone, hair, pose. The person's chest, belly, and overall body shape are exactly as in Image 1 with zero modification. Completely remove all original upper body clothing and replace with the ${itemType} from Image 2. Color: Pixel-accurate to Image 2 — exact hue, saturation, brightness. ${sleeves} Composition: Straight-on mid-body framing. The virtual camera is pulled back far enough to show the person's full head, full torso, and the complete hem of the garment in frame. All body parts scale equally and uniformly. ${fitDesc} Prohibitions: Added chest or breast volume, added belly volume, altered body shape, loose or slack fabric, ${sharedProhibitions}, cropped or shortened shirt, shorter hemline than Image 2. Mandatory: The sleeve style, sleeve cut, and sleeve length come only from Image 2. Hem hanging freely over and outside the pants waistband. All body parts in correct anatomical proportion. The garment length — measured from shoulder to hem — is exactly as shown in Image 2. The tightness affects width only. 100% garment length accuracy from Image 2. 100% color accuracy from Image 2.`
-      }
-      case 'comfortable': {
-        const comfortFit = isStructured
-          ? `Fit: The ${nameLC} is one full size too large. The shoulders drop 40mm past the natural shoulder bone. The sleeves extend well past the wrists, partially covering the hands. The torso section is boxy and wide with 60mm of air gap on each side. The garment hangs like a borrowed ${nameLC} from someone much bigger. The zipper or front closure has excessive overlap. Wider, not longer.`
-          : `Fit: Only the width is larger — the shirt is one full size wider than the person's body. 60mm of visible air gap between fabric and torso on each side. Shoulder seams drop 35mm past the natural shoulder bone. Sleeves visibly wider than the arms. 5-7 prominent vertical folds down the front. Body shape hidden by excess width. The shirt is wider, not longer.`
-
-        return `${first} Virtual try-on. The person in Image 1 is wearing the ${itemType} from Image 2. ${style} Subject: The exact same person from Image 1 — identical face, body shape, body size, skin tone, hair, pose. The person's chest, belly, and overall body shape are exactly as in Image 1 with zero modification. Completely remove all original upper body clothing and replace with the ${itemType} from Image 2. Color: Pixel-accurate to Image 2 — exact hue, saturation, brightness. ${sleeves} Composition: Keep the exact same framing and camera distance as Image 1. The person's head and body remain the exact same size in the frame as in Image 1. If the garment hem extends beyond the bottom of the frame, let it be cropped off. Cutting off the bottom of the shirt is acceptable. Shrinking the person is not acceptable. ${comfortFit} Prohibitions: Added chest or breast volume, added belly volume, altered body shape, fitted fabric, fabric touching torso sides, shrinking torso independently of head, shrinking the person, dress-like length, ${sharedProhibitions}, shorter hemline than Image 2, longer hemline than Image 2. Mandatory: The sleeve style, sleeve cut, and sleeve length come only from Image 2. Hem hanging freely over and outside the pants waistband. All body parts in correct anatomical proportion. The shirt is wider, not longer. Body size in the frame is identical to Image 1. Preserving body proportion is more important than showing the full garment length. 100% garment length accuracy from Image 2. 100% color accuracy from Image 2.`
-      }
-      default: { // regular
-        const regularFit = isStructured
-          ? `Fit: Standard retail fit. The ${nameLC} closes comfortably with no strain. Shoulder seams sit on the shoulder bone. Sleeves end at the wrist. 15mm of space between the torso and the garment shell. The garment holds its structured shape without pulling or excess bulk.`
-          : `Fit: Standard retail fit. The fabric skims the body with approximately 15mm of space between skin and fabric. Shoulder seams sit exactly on the shoulder bone. A few natural creases at the waist. Body shape suggested but not defined through the fabric.`
-
-        return `${first} Virtual try-on. The person in Image 1 is wearing ONLY the ${itemType} from Image 2 on their upper body. Nothing else. ${style} Subject: The exact same person from Image 1 — identical face, body shape, body size, skin tone, hair, pose. The person's chest, belly, and overall body shape are exactly as in Image 1 with zero modification. Every single piece of original upper body clothing is destroyed and gone — the original shirt, jacket, hoodie, sweater, undershirt, everything. The person's upper body has ONLY the ${itemType} from Image 2 directly on skin. No layering. No original clothing peeking through at the collar, sleeves, or hem. Color: Pixel-accurate to Image 2 — exact hue, saturation, brightness. ${sleeves} Composition: Straight-on mid-body framing. The virtual camera is pulled back far enough to show the person's full head, full torso, and the complete hem of the garment in frame. All body parts scale equally and uniformly. ${regularFit} Prohibitions: Added chest or breast volume, added belly volume, altered body shape, skin-tight fabric, oversized look, ANY trace of original clothing — no collar visible underneath, no sleeve cuff visible underneath, no hem visible underneath, no layering of any kind, ${sharedProhibitions}. Mandatory: The sleeve style, sleeve cut, and sleeve length come only from Image 2. Hem hanging freely over and outside the pants waistband. All body parts in correct anatomical proportion. The garment length — measured from shoulder to hem — is exactly as shown in Image 2. 100% garment length accuracy from Image 2. 100% color accuracy from Image 2.`
-      }
-    }
+  const isStructured = isOuterwear(clothingInfo)
+  const layering = isStructured ? clothingInfo.layering ?? 'standalone' : 'standalone'
+
+  let category: PromptCategory
+  let variant: PromptVariant
+  if (view === 'back') {
+    category = 'back_view'
+    variant = 'standard'
+  } else if (layering !== 'standalone') {
+    category = 'outerwear_layered'
+    variant = layering === 'layered_open' ? 'open' : 'standard'
   } else {
-    const base = `The person's original bottom does not exist. Start from bare legs, dress in the ${itemType} from Image 2.
-
-Virtual try-on. The person in Image 1 wears the ${itemType} from Image 2.
-
-Style: Photorealistic, lighting and background identical to Image 1.
-
-Subject: Same person from Image 1 — identical face, body shape, body size, skin tone, hair, pose, top garment. Zero body modification. All original lower body clothing fully replaced by ${itemType} from Image 2.
-
-Color: Pixel-accurate to Image 2 — exact hue, saturation, brightness.
-
-Composition: Full-body framing, lighting matching Image 1.`
-
-    const sharedProhibitions = `original lower clothing visible, original bottom blending through, color shift from Image 2, altered body shape, added belly volume, disproportionate body parts`
-
-    switch (fitType) {
-      case 'tight':
-        return `${base}
-
-Fit: 0mm air gap. Fabric wraps hips, thighs, calves with zero loose material. Leg shape clearly defined through fabric.
-
-Prohibitions: Loose fabric, ${sharedProhibitions}, shorter leg than Image 2.
-
-Mandatory: Exact color, pattern, leg length from Image 2. 100% length and color accuracy from Image 2.`
-      case 'comfortable':
-        return `${base}
-
-Fit: 50mm air gap between fabric and thighs each side. Generous room around hips and legs. Soft folds at knees and thighs. Pant silhouette noticeably wider than legs. Leg shape hidden. Wider, not longer.
+    category = isTop ? (isMale ? 'tops_men' : 'tops_women') : 'bottoms'
+    variant = isStructured ? 'structured' : 'standard'
+  }
 
-Prohibitions: Fitted fabric, fabric touching thighs, ${sharedProhibitions}, shorter leg than Image 2, longer leg than Image 2.
+  return renderPrompt(category, variant, {
+    itemName: clothingInfo.name || itemType,
+    itemNameLower: nameLC,
+    itemType,
+    itemColor: clothingInfo.color || '',
+    gender,
+    fit: fitType,
+    sizeFit: describeSizeFit(clothingInfo),
+    tuck: clothingInfo.tuck ?? 'untucked'
+  })
+}
 
-Mandatory: Exact color, pattern, leg length from Image 2. Wider not longer. 100% length and color accuracy from Image 2.`
-      default: // regular
-        return `${base}
+/**
+ * Generate the outfit prompt for a top + bottom combination
+ */
+function generateOutfitPrompt(top: ClothingInfo, bottom: ClothingInfo, fitType: FitType, gender: string = 'unknown'): RenderedPrompt {
+  return renderPrompt('outfit', 'standard', {
+    topName: top.name || top.type || 'top',
+    topColor: top.color || '',
+    bottomName: bottom.name || bottom.type || 'bottom',
+    bottomColor: bottom.color || '',
+    gender,
+    fit: fitType,
+    topSizeFit: describeSizeFit(top),
+    bottomSizeFit: describeSizeFit(bottom)
+  })
+}
 
-Fit: Standard retail. 15mm air gap. Fabric follows leg shape lightly. Few creases at knees. Not clinging, not baggy.
+// Options for one try-on job
+export interface TryOnJob {
+  itemId: string         // Item card (or outfit) the image belongs to: scheduler priority and cancellation
+  cacheId?: string       // Stable product (or outfit) id for the image cache; defaults to itemId
+  signal?: AbortSignal   // Cancels the job while queued or running
+  skipCache?: boolean    // Force a fresh image (regenerate)
+  watermark?: WatermarkOptions  // Watermark layout / co-brand logo for the result
+  view?: TryOnView       // Front (default) or back view
+  mask?: string | null   // Mask painted for this garment's category (see garmentMask); front views only
+}
 
-Prohibitions: Skin-tight fabric, oversized look, ${sharedProhibitions}, shorter leg than Image 2, longer leg than Image 2.
+// Raw provider image before QA and watermarking
+interface GeneratedImage {
+  imageDataUrl: string
+  analysisText?: string
+}
 
-Mandatory: Exact color, pattern, leg length from Image 2. 100% length and color accuracy from Image 2.`
-    }
-  }
+// Garment image and its category, in the order sent to the provider
+interface GarmentInput {
+  imageUrl: string
+  category: GarmentCategory
+  layering?: LayeringMode  // Outerwear only: worn on its own or over the person's own top
 }
 
 /**
  * Generate a virtual try-on image
  *
+ * Retries with exponential backoff + jitter on retryable failures (timeouts, 5xx, 429,
+ * content-filter blocks, missing image). A per-session circuit breaker stops sending
+ * requests after repeated backend failures. Failures come back as a structured
+ * TryOnFailure on the result rather than being thrown.
+ * Each image is checked against the photo and product image (tryOnQuality); results that
+ * drift are re-queued up to MAX_QUALITY_REQUEUES times and the best-scoring one is kept.
+ * Successful images are stored in the persistent image cache and returned from it on the
+ * next identical request (same photo, item, fit, provider and prompt) unless skipCache is set.
+ *
+ * Back views (job.view = 'back') take the rear product shot as clothingImageUrl and are
+ * scheduled and cached under their own id (see getViewItemId).
+ *
  * @param userImage - User's photo (base64 or data URL)
- * @param clothingImageUrl - URL of the clothing image
+ * @param clothingImageUrl - URL of the clothing image (rear shot for back views)
  * @param clothingInfo - Info about the clothing item
  * @param fitType - Fit type: 'tight', 'regular', or 'comfortable' (defaults to 'regular')
+ * @param gender - Gender from person analysis, selects the prompt family
+ * @param job - Item id, view, cancel signal and cache bypass for this job
  * @returns Try-on result with generated image
  */
 export async function generateTryOnImage(
@@ -384,97 +379,302 @@ export async function generateTryOnImage(
   clothingImageUrl: string,
   clothingInfo: ClothingInfo,
   fitType: FitType = 'regular',
-  keyIndex: number = 0,
-  gender: string = 'unknown'
+  gender: string = 'unknown',
+  job: TryOnJob = { itemId: '' }
 ): Promise<TryOnResult> {
-  try {
-    const { base64: avatarBase64, aspectRatio } = await processUserImage(userImage)
-    const clothingBase64 = await imageUrlToBase64(clothingImageUrl)
-    const prompt = generateTryOnPrompt(clothingInfo, fitType, gender)
-
-    // Queue the actual API call per key to avoid rate limits
-    return await enqueueForKey(keyIndex, async () => {
-    const MAX_RETRIES = 10
-    const TIMEOUT_MS = 35_000
+  const view = job.view ?? 'front'
+  const garments: GarmentInput[] = [
+    {
+      imageUrl: clothingImageUrl,
+      category: isBottomType(clothingInfo.type) ? 'bottom' : 'top',
+      layering: isOuterwear(clothingInfo) ? clothingInfo.layering : undefined
+    }
+  ]
+  const label = view === 'back' ? `${clothingInfo.name} (back)` : clothingInfo.name
+  return runTryOn(
+    userImage,
+    garments,
+    () => generateTryOnPrompt(clothingInfo, fitType, gender, view),
+    fitType,
+    label,
+    {
+      ...job,
+      itemId: job.itemId && getViewItemId(job.itemId, view),
+      cacheId: job.cacheId && getViewItemId(job.cacheId, view)
+    }
+  )
+}
 
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-      const controller = new AbortController()
-      const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS)
+/**
+ * Generate a try-on image of a full outfit: one top and one bottom in a single image
+ * Same retry, scheduling and caching behaviour as generateTryOnImage; job.itemId should
+ * identify the combination (see getOutfitId).
+ *
+ * @param userImage - User's photo (base64 or data URL)
+ * @param top - Top garment image URL and info
+ * @param bottom - Bottom garment image URL and info
+ * @param fitType - Fit type applied to both garments
+ * @param gender - Gender from person analysis
+ * @param job - Outfit id, cancel signal and cache bypass for this job
+ */
+export async function generateOutfitTryOnImage(
+  userImage: string,
+  top: { imageUrl: string; info: ClothingInfo },
+  bottom: { imageUrl: string; info: ClothingInfo },
+  fitType: FitType = 'regular',
+  gender: string = 'unknown',
+  job: TryOnJob = { itemId: '' }
+): Promise<TryOnResult> {
+  const garments: GarmentInput[] = [
+    { imageUrl: top.imageUrl, category: 'top' },
+    { imageUrl: bottom.imageUrl, category: 'bottom' }
+  ]
+  const label = `${top.info.name} + ${bottom.info.name}`
+  return runTryOn(userImage, garments, () => generateOutfitPrompt(top.info, bottom.info, fitType, gender), fitType, label, job)
+}
 
-      try {
+/**
+ * Scheduler / cache item id for one view of an item
+ * Front views keep the plain item id, so existing cache entries and queue focus are unchanged.
+ */
+export function getViewItemId(itemId: string, view: TryOnView): string {
+  return view === 'front' ? itemId : `${itemId}:${view}`
+}
 
-        // Add random seed on retries so content filter sees a "different" request
-        const retryPrompt = attempt === 0 ? prompt : `${prompt}\n[Session ${Date.now()}]`
+/**
+ * Cache id for an item: the retailer product id, stable across re-scans and visits
+ * (item.id carries a per-scan suffix). Items saved before productId existed fall back to the SKU.
+ */
+export function getProductCacheId(item: ItemData): string {
+  return item.productId || item.sku || item.id
+}
 
-        const response = await fetch(`${BACKEND_URL}/api/gemini-tryon-duke`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          signal: controller.signal,
-          body: JSON.stringify({
-            avatarBase64,
-            clothingBase64Images: [clothingBase64],
-            prompt: retryPrompt,
-            aspectRatio,
-            keyIndex
-          })
-        })
+/**
+ * Id for a top + bottom outfit, used as the scheduler / cache item id
+ */
+export function getOutfitId(topItemId: string, bottomItemId: string): string {
+  return `outfit:${topItemId}+${bottomItemId}`
+}
 
-        clearTimeout(timeout)
+/**
+ * How far to grow the painted mask: fits that sit wider than the person's own clothes
+ * (comfortable, or outerwear layered over them) would otherwise be clipped at the mask edge
+ */
+function getMaskGrowth(fitType: FitType, garmentInputs: GarmentInput[]): number {
+  const layered = garmentInputs.some(g => g.layering && g.layering !== 'standalone')
+  return Math.max(
+    layered ? MASK_GROWTH.layered : 0,
+    fitType === 'comfortable' ? MASK_GROWTH.comfortable : 0
+  )
+}
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}))
-          throw new Error((errorData as { error?: string }).error || `API error: ${response.status}`)
+/**
+ * Shared pipeline: cache lookup, image preparation, scheduling and the retry loop
+ */
+async function runTryOn(
+  userImage: string,
+  garmentInputs: GarmentInput[],
+  buildPrompt: () => RenderedPrompt,
+  fitType: FitType,
+  label: string,
+  job: TryOnJob
+): Promise<TryOnResult> {
+  let promptTemplate: PromptTemplateRef | undefined
+  let attempts = 0
+  try {
+    const { text: prompt, template } = buildPrompt()
+    promptTemplate = template
+    const promptHash = await sha256(prompt)
+    const provider = getTryOnProvider()
+
+    // Persistent cache, only for requests tied to an item
+    const cache = getTryOnImageCache()
+    const mask = job.view === 'back' ? null : job.mask ?? null
+    const cacheItemId = job.cacheId || job.itemId
+    const cacheKey = cacheItemId
+      ? await cache.buildKey({ photo: userImage, itemId: cacheItemId, fit: fitType, provider: provider.name, prompt, mask: mask ?? undefined })
+      : null
+    if (cacheKey && !job.skipCache) {
+      const cached = await cache.get(cacheKey)
+      if (cached) {
+        console.log(`[TryOn] ${label} — ${fitType} served from cache`)
+        return {
+          imageDataUrl: await addWatermark(cached.imageDataUrl, job.watermark),
+          analysisText: cached.analysisText,
+          success: true,
+          promptTemplate: template,
+          fromCache: true,
+          promptHash,
+          generatedAt: cached.createdAt
         }
+      }
+    }
 
-        const data = await response.json() as Record<string, unknown>
+    let avatarBase64: string
+    let aspectRatio: string
+    let clothingBase64Images: string[]
+    let maskBase64: string | undefined
+    try {
+      ({ base64: avatarBase64, aspectRatio } = await processUserImage(userImage))
+      clothingBase64Images = await Promise.all(garmentInputs.map(g => imageUrlToBase64(g.imageUrl)))
+      if (mask) {
+        const growth = getMaskGrowth(fitType, garmentInputs)
+        maskBase64 = await processMaskImage(growth > 0 ? await growMask(mask, growth) : mask)
+      }
+    } catch (err) {
+      throw new TryOnError('client', err instanceof Error ? err.message : 'Could not prepare images')
+    }
+    // Queue the actual API call; the scheduler hands out one API key slot per running job
+    const generate = () => getTryOnScheduler().schedule({ itemId: job.itemId, fit: fitType, signal: job.signal }, async (keyIndex, signal): Promise<GeneratedImage> => {
+      let lastError: TryOnError | null = null
+
+      for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        if (signal.aborted) throw new TryOnError('cancelled', 'Cancelled')
+        if (attempt > 0) await sleep(backoffDelay(attempt), signal)
+        if (!circuitBreaker.canRequest()) {
+          const seconds = Math.ceil(circuitBreaker.retryAfterMs() / 1000)
+          throw new TryOnError('circuit_open', `Image service unavailable, retry in ${seconds}s`)
+        }
 
+        attempts++
+        const controller = new AbortController()
+        const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS)
+        const onCancel = () => controller.abort()
+        signal.addEventListener('abort', onCancel)
 
-        // Check for content block — retry if so
-        const candidate = (data.candidates as Array<Record<string, unknown>>)?.[0]
-        if (!candidate || candidate.finishReason === 'PROHIBITED_CONTENT' || candidate.finishReason === 'IMAGE_OTHER') {
+        try {
+          // After a content-filter block, vary the prompt so the filter sees a "different" request
+          const wasBlocked = lastError?.kind === 'prohibited_content' || lastError?.kind === 'image_other'
+          const attemptPrompt = wasBlocked ? `${prompt}\n[Session ${Date.now()}]` : prompt
 
-          if (attempt < MAX_RETRIES - 1) continue
-          throw new Error('Blocked by content filter after all retries')
+          const response = await provider.send({
+            avatarBase64,
+            clothingBase64Images,
+            prompt: attemptPrompt,
+            aspectRatio,
+            keyIndex,
+            fitType,
+            garmentCategories: garmentInputs.map(g => g.category),
+            maskBase64: provider.supportsMask ? maskBase64 : undefined
+          }, controller.signal)
+
+          const block = provider.detectContentBlock(response)
+          if (block) throw new TryOnError(block, 'Blocked by content filter')
+
+          const { imageDataUrl, analysisText } = provider.parseResponse(response)
+          if (!imageDataUrl) throw new TryOnError('no_image', 'No image in response')
+
+          circuitBreaker.recordSuccess()
+          console.log(`[TryOn] ${label} — ${fitType} generated via ${provider.name} (attempt ${attempt + 1}/${MAX_ATTEMPTS}, prompt ${template.id}@v${template.version})`)
+          return { imageDataUrl, analysisText }
+        } catch (e) {
+          const error = classifyError(e, controller.signal.aborted && !signal.aborted, signal.aborted)
+          if (error.kind === 'cancelled') throw error
+
+          lastError = error
+          circuitBreaker.recordFailure(error.kind)
+          console.warn(`[TryOn] ${label} — ${fitType} attempt ${attempt + 1}/${MAX_ATTEMPTS} failed: ${error.kind}`)
+          if (!isRetryable(error.kind, error.status)) throw error
+        } finally {
+          clearTimeout(timeout)
+          signal.removeEventListener('abort', onCancel)
         }
+      }
 
-        // Parse image from response
-        let imageDataUrl: string | null = null
-        let analysisText: string | undefined
-        const content = candidate.content as { parts: Array<Record<string, unknown>> }
-
-        for (const part of content.parts) {
-          const inlineData = part.inlineData as { mimeType?: string; data?: string } | undefined
-          if (inlineData?.mimeType?.includes('image')) {
-            imageDataUrl = `data:${inlineData.mimeType};base64,${inlineData.data}`
-          }
-          if (part.text) {
-            analysisText = part.text as string
-          }
-        }
+      throw lastError ?? new TryOnError('no_image', 'All retries failed')
+    }) // end schedule
 
-        if (imageDataUrl) {
-          const watermarkedImage = await addWatermark(imageDataUrl)
-          console.log(`[TryOn] ${clothingInfo.name} — ${fitType} SUCCESS (attempt ${attempt + 1}/${MAX_RETRIES})`)
-          return { imageDataUrl: watermarkedImage, analysisText, success: true }
-        }
+    // QA pass: re-queue results that drift from the inputs, keep the best-scoring one
+    let best: (GeneratedImage & { quality: TryOnQualityReport | null }) | null = null
+    for (let pass = 0; pass <= MAX_QUALITY_REQUEUES; pass++) {
+      let generated: GeneratedImage
+      try {
+        generated = await generate()
+      } catch (err) {
+        // A failed re-queue keeps the image already scored; only the first pass (or a cancel) fails the job
+        if (!best || (err instanceof TryOnError && err.kind === 'cancelled') || job.signal?.aborted) throw err
+        console.warn(`[TryOn] ${label} — ${fitType} re-queue failed, keeping the best result so far:`, err)
+        break
+      }
+      // Keep edits inside the painted region, whatever the provider returned
+      if (maskBase64) {
+        generated.imageDataUrl = await compositeWithMask(
+          generated.imageDataUrl,
+          `data:image/jpeg;base64,${avatarBase64}`,
+          `data:image/png;base64,${maskBase64}`
+        )
+      }
+      const quality = await assessTryOnQuality({
+        resultImage: generated.imageDataUrl,
+        personImage: `data:image/jpeg;base64,${avatarBase64}`,
+        garmentImages: clothingBase64Images.map(b => `data:image/jpeg;base64,${b}`),
+        garmentCategories: garmentInputs.map(g => g.category),
+        view: job.view,
+        openLayer: garmentInputs.some(g => g.layering === 'layered_open')
+      }).catch((err) => {
+        console.warn(`[TryOn] ${label} — ${fitType} quality check skipped:`, err)
+        return null
+      })
+
+      if (quality) {
+        track('tryon_quality', {
+          fit: fitType,
+          view: job.view ?? 'front',
+          pass,
+          passed: quality.passed,
+          score: quality.score,
+          background: quality.backgroundSimilarity,
+          face: quality.faceSimilarity,
+          colorDelta: Math.max(0, ...quality.colorDeltas),
+          failed: quality.failedChecks.join(',') || 'none'
+        })
+      }
 
-        throw new Error('No image in response')
-      } catch (e) {
-        clearTimeout(timeout)
-        console.warn(`[TryOn] ${clothingInfo.name} — ${fitType} attempt ${attempt + 1}/${MAX_RETRIES} failed`)
-        if (attempt === MAX_RETRIES - 1) throw e
+      if (!best || (quality && (!best.quality || quality.score > best.quality.score))) {
+        best = { imageDataUrl: generated.imageDataUrl, analysisText: generated.analysisText, quality }
       }
+      if (!quality || quality.passed) break
+      console.warn(`[TryOn] ${label} — ${fitType} failed QA (${quality.failedChecks.join(', ')}, score ${quality.score})${pass < MAX_QUALITY_REQUEUES ? ', re-queuing' : ''}`)
     }
 
-    throw new Error('All retries failed')
-    }) // end enqueueForKey
+    if (!best) throw new TryOnError('no_image', 'No image in response')
+
+    // Cache the image before watermarking; the watermark is applied again on every read
+    if (cacheKey) {
+      void cache.set(cacheKey, { imageDataUrl: best.imageDataUrl, analysisText: best.analysisText })
+    }
+    const watermarkedImage = await addWatermark(best.imageDataUrl, job.watermark)
+    console.log(`[TryOn] ${label} — ${fitType} SUCCESS (${attempts} attempts${best.quality ? `, QA score ${best.quality.score}` : ''})`)
+    return {
+      imageDataUrl: watermarkedImage,
+      analysisText: best.analysisText,
+      success: true,
+      promptTemplate: template,
+      quality: best.quality ?? undefined,
+      promptHash,
+      generatedAt: Date.now()
+    }
 
   } catch (err) {
-    console.error(`[TryOn] ${clothingInfo.name} — ${fitType} FAILED after all attempts: ${err instanceof Error ? err.message : 'Unknown'}`)
+    const error = err instanceof TryOnError
+      ? err
+      : classifyError(err, false, job.signal?.aborted ?? false)
+    const failure: TryOnFailure = {
+      kind: error.kind,
+      message: error.message,
+      status: error.status,
+      attempts,
+      retryable: error.kind !== 'cancelled'
+    }
+    if (failure.kind !== 'cancelled') {
+      console.error(`[TryOn] ${label} — ${fitType} FAILED (${failure.kind}) after ${attempts} attempts: ${failure.message}`)
+    }
     return {
       imageDataUrl: null,
       success: false,
-      error: err instanceof Error ? err.message : 'Unknown error'
+      error: failure.message,
+      failure,
+      promptTemplate
     }
   }
 }
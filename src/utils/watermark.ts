@@ -0,0 +1,245 @@
+/**
+ * Watermark
+ * Single watermark engine for every generated and exported try-on image
+ *
+ * The TryIt logo is sized relative to the image, and all four corners are scored for
+ * contrast (against a white or black logo) and visual busyness; the logo goes in the
+ * cleanest, highest-contrast corner. An optional retailer logo can be drawn next to it
+ * for co-branded images.
+ */
+
+import type { ItemData } from '../App'
+import DukeStoreLogo from '../assets/Duke Store Logo.png'
+
+export type WatermarkColor = 'white' | 'black'
+export type WatermarkCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+
+export interface WatermarkOptions {
+  opacity?: number                // Logo opacity, 0-1
+  heightFraction?: number         // Logo height as a fraction of the image's shorter side
+  marginFraction?: number         // Edge margin as a fraction of the image's shorter side
+  corners?: WatermarkCorner[]     // Candidate corners; defaults to all four
+  coBrandLogoUrl?: string | null  // Retailer logo drawn beside the TryIt logo
+}
+
+// Where the logo block ends up, and in which color
+export interface WatermarkPlacement {
+  corner: WatermarkCorner
+  color: WatermarkColor
+  x: number
+  y: number
+  width: number   // Whole logo block (TryIt logo + co-brand logo)
+  height: number
+}
+
+// Defaults: roughly the old fixed 100px logo on a 1024px-wide image
+const DEFAULT_OPTIONS: Required<Omit<WatermarkOptions, 'coBrandLogoUrl'>> = {
+  opacity: 0.6,
+  heightFraction: 0.1,
+  marginFraction: 0.03,
+  corners: ['bottom-right', 'bottom-left', 'top-right', 'top-left']
+}
+
+// Co-brand logo height relative to the TryIt logo, and the gap between them
+const CO_BRAND_HEIGHT_RATIO = 0.8
+const CO_BRAND_GAP_RATIO = 0.25
+
+// Busyness (mean luminance gradient, 0-255) is weighted against contrast (0-255)
+const BUSYNESS_WEIGHT = 1.5
+
+// Small bonus so ties keep the familiar bottom-right placement
+const PREFERRED_CORNER: WatermarkCorner = 'bottom-right'
+const PREFERRED_CORNER_BONUS = 4
+
+// Retailer logos for co-branding, by product image host
+const RETAILER_LOGOS: { host: string; logo: string }[] = [
+  { host: 'shop.duke.edu', logo: DukeStoreLogo }
+]
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error(`Could not load image: ${src.slice(0, 60)}`))
+    img.src = src
+  })
+}
+
+/**
+ * Logo path for a watermark color
+ */
+export function getWatermarkLogoPath(color: WatermarkColor): string {
+  return color === 'white' ? '/logo-white.png' : '/logo-black.png'
+}
+
+/**
+ * Retailer logo to co-brand an item's images with, or null
+ */
+export function getCoBrandLogo(item: Pick<ItemData, 'imageUrl'> | null | undefined): string | null {
+  if (!item?.imageUrl) return null
+  return RETAILER_LOGOS.find(r => item.imageUrl.includes(r.host))?.logo ?? null
+}
+
+/**
+ * Score one corner region: higher is better
+ * Picks the logo color with the most contrast against the region's mean brightness,
+ * then subtracts a penalty for busy (high-gradient) backgrounds.
+ */
+function scoreRegion(data: Uint8ClampedArray, width: number, height: number): { score: number; color: WatermarkColor } {
+  let totalBrightness = 0
+  let totalGradient = 0
+  let pixelCount = 0
+  let gradientCount = 0
+
+  const luminance = (i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+
+  // Sample every other pixel in each direction for performance
+  for (let y = 0; y < height; y += 2) {
+    for (let x = 0; x < width; x += 2) {
+      const i = (y * width + x) * 4
+      if (data[i + 3] < 128) continue
+
+      const lum = luminance(i)
+      totalBrightness += lum
+      pixelCount++
+
+      if (x + 2 < width && y + 2 < height) {
+        const right = luminance(i + 8)
+        const below = luminance(i + width * 8)
+        totalGradient += Math.abs(lum - right) + Math.abs(lum - below)
+        gradientCount++
+      }
+    }
+  }
+
+  if (pixelCount === 0) return { score: 0, color: 'white' }
+
+  const avgBrightness = totalBrightness / pixelCount
+  const busyness = gradientCount > 0 ? totalGradient / gradientCount / 2 : 0
+
+  // Same bias as before: only very light backgrounds get the black logo
+  const color: WatermarkColor = avgBrightness > 180 ? 'black' : 'white'
+  const contrast = color === 'black' ? avgBrightness : 255 - avgBrightness
+
+  return { score: contrast - busyness * BUSYNESS_WEIGHT, color }
+}
+
+/**
+ * Logo block position for a corner
+ */
+function cornerPosition(
+  corner: WatermarkCorner,
+  canvasWidth: number,
+  canvasHeight: number,
+  blockWidth: number,
+  blockHeight: number,
+  margin: number
+): { x: number; y: number } {
+  const x = corner.endsWith('left') ? margin : canvasWidth - blockWidth - margin
+  const y = corner.startsWith('top') ? margin : canvasHeight - blockHeight - margin
+  return { x: Math.max(0, x), y: Math.max(0, y) }
+}
+
+/**
+ * Pick the best corner and logo color for a logo block of the given size
+ *
+ * @param ctx - Canvas context with the image already drawn
+ * @param blockWidth - Width of the whole logo block
+ * @param blockHeight - Height of the logo block
+ * @param margin - Distance from the image edges
+ * @param corners - Candidate corners
+ */
+export function chooseWatermarkPlacement(
+  ctx: CanvasRenderingContext2D,
+  blockWidth: number,
+  blockHeight: number,
+  margin: number,
+  corners: WatermarkCorner[] = DEFAULT_OPTIONS.corners
+): WatermarkPlacement {
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas
+  let best: WatermarkPlacement = {
+    corner: PREFERRED_CORNER,
+    color: 'white',
+    ...cornerPosition(PREFERRED_CORNER, canvasWidth, canvasHeight, blockWidth, blockHeight, margin),
+    width: blockWidth,
+    height: blockHeight
+  }
+  let bestScore = -Infinity
+
+  for (const corner of corners) {
+    const { x, y } = cornerPosition(corner, canvasWidth, canvasHeight, blockWidth, blockHeight, margin)
+    const sampleWidth = Math.max(1, Math.min(Math.round(blockWidth), canvasWidth - Math.round(x)))
+    const sampleHeight = Math.max(1, Math.min(Math.round(blockHeight), canvasHeight - Math.round(y)))
+
+    let region: { score: number; color: WatermarkColor }
+    try {
+      const imageData = ctx.getImageData(Math.round(x), Math.round(y), sampleWidth, sampleHeight)
+      region = scoreRegion(imageData.data, sampleWidth, sampleHeight)
+    } catch {
+      // Tainted canvas: keep the default placement
+      return best
+    }
+
+    const score = region.score + (corner === PREFERRED_CORNER ? PREFERRED_CORNER_BONUS : 0)
+    if (score > bestScore) {
+      bestScore = score
+      best = { corner, color: region.color, x, y, width: blockWidth, height: blockHeight }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Add the TryIt watermark (and optional co-brand logo) to an image
+ *
+ * @param imageSrc - Image source (data URL or URL)
+ * @param options - Opacity, size, candidate corners and co-brand logo
+ * @returns PNG data URL of the watermarked image
+ */
+export async function addWatermark(imageSrc: string, options: WatermarkOptions = {}): Promise<string> {
+  const { opacity, heightFraction, marginFraction, corners } = { ...DEFAULT_OPTIONS, ...options }
+
+  const img = await loadImage(imageSrc)
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Could not get canvas context')
+
+  canvas.width = img.width
+  canvas.height = img.height
+  ctx.drawImage(img, 0, 0)
+
+  const shortSide = Math.min(canvas.width, canvas.height)
+  const logoHeight = shortSide * heightFraction
+  const margin = shortSide * marginFraction
+
+  // Both logo colors share an aspect ratio, so measure with the white one before picking
+  const [sizingLogo, coBrandLogo] = await Promise.all([
+    loadImage(getWatermarkLogoPath('white')),
+    options.coBrandLogoUrl ? loadImage(options.coBrandLogoUrl).catch(() => null) : Promise.resolve(null)
+  ])
+  const logoWidth = (sizingLogo.width / sizingLogo.height) * logoHeight
+
+  const coBrandHeight = logoHeight * CO_BRAND_HEIGHT_RATIO
+  const coBrandWidth = coBrandLogo ? (coBrandLogo.width / coBrandLogo.height) * coBrandHeight : 0
+  const gap = coBrandLogo ? logoHeight * CO_BRAND_GAP_RATIO : 0
+  const blockWidth = logoWidth + gap + coBrandWidth
+
+  const placement = chooseWatermarkPlacement(ctx, blockWidth, logoHeight, margin, corners)
+  const logo = placement.color === 'white' ? sizingLogo : await loadImage(getWatermarkLogoPath(placement.color))
+
+  // Keep the TryIt logo on the outer edge, co-brand logo toward the center
+  const logoOnRight = placement.corner.endsWith('right')
+  const logoX = logoOnRight ? placement.x + blockWidth - logoWidth : placement.x
+  const coBrandX = logoOnRight ? placement.x : placement.x + logoWidth + gap
+
+  ctx.globalAlpha = opacity
+  ctx.drawImage(logo, logoX, placement.y, logoWidth, logoHeight)
+  if (coBrandLogo) {
+    ctx.drawImage(coBrandLogo, coBrandX, placement.y + (logoHeight - coBrandHeight) / 2, coBrandWidth, coBrandHeight)
+  }
+  ctx.globalAlpha = 1
+
+  return canvas.toDataURL('image/png')
+}